@@ -23,14 +23,25 @@ import ticketRoutes from "./routes/ticket.routes";
 import invoiceRoutes from "./routes/invoices.routes";
 import pageSEORoute from "./routes/static-pages-seo.routes";
 import mailRoute from "./routes/mail.routes";
+import webhookEventRoute from "./routes/webhook-event.routes";
+import subscriptionRoute from "./routes/subscription.routes";
+import taxRuleRoute from "./routes/tax-rule.routes";
+import wishlistRoute from "./routes/wishlist.routes";
+import storeCreditRoute from "./routes/store-credit.routes";
 dotenv.config();
 
 const app: Application = express();
 const basePath = "/api/v2";
 
+// Use the client address from the reverse proxy for req.ip
+app.set("trust proxy", 1);
+
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
+// Payment webhooks need the raw body for signature verification
+app.use((req, res, next) =>
+  req.path.endsWith("-webhook") ? next() : express.json()(req, res, next)
+);
 
 app.get("/", (_req, res) => {
   res.send("Server running 🚀");
@@ -56,5 +67,10 @@ app.use(`${basePath}/tickets`, ticketRoutes);
 app.use(`${basePath}/invoices`, invoiceRoutes);
 app.use(`${basePath}/page-seo`, pageSEORoute);
 app.use(`${basePath}/mail`, mailRoute);
+app.use(`${basePath}/webhook-events`, webhookEventRoute);
+app.use(`${basePath}/subscriptions`, subscriptionRoute);
+app.use(`${basePath}/tax-rules`, taxRuleRoute);
+app.use(`${basePath}/wishlist`, wishlistRoute);
+app.use(`${basePath}/store-credit`, storeCreditRoute);
 
 export default app;
@@ -0,0 +1,175 @@
+import { NextFunction, Request, Response } from "express";
+import AbandonedCart from "../models/abandoned-cart.model";
+import { CustomError } from "../middlewares/error";
+import { checkPermission } from "../helpers/authHelper";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to read the report's date range; the last 30 days by default
+const getReportRange = (from: unknown, to: unknown) => {
+  const end = to ? new Date(String(to)) : new Date();
+  const start = from ? new Date(String(from)) : new Date(end.getTime() - 30 * DAY_MS);
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new CustomError(400, "from and to must be valid dates");
+  }
+  if (start > end) {
+    throw new CustomError(400, "from must be before to");
+  }
+  return { start, end };
+};
+
+// *********************************************************
+// ************ Retrieve Abandoned Cart Campaigns **********
+// *********************************************************
+export const getAbandonedCarts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id, status, from, to } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "carts", 2);
+    if (!permissionCheck) {
+      return next(new CustomError(403, "Permission denied"));
+    }
+
+    if (id) {
+      const campaign = await AbandonedCart.findById(id)
+        .populate("userId", "name email")
+        .populate("products.product", "name slug")
+        .populate("orderId", "orderNumber finalPrice paymentStatus")
+        .lean();
+      if (!campaign) {
+        throw new CustomError(404, "Abandoned cart not found");
+      }
+      return res.status(200).json({ data: campaign });
+    }
+
+    const { start, end } = getReportRange(from, to);
+    const filter: Record<string, any> = {
+      abandonedAt: { $gte: start, $lte: end },
+    };
+    if (status) filter.status = status;
+
+    const campaigns = await AbandonedCart.find(filter)
+      .populate("userId", "name email")
+      .populate("products.product", "name slug")
+      .populate("orderId", "orderNumber")
+      .sort({ abandonedAt: -1 })
+      .lean();
+
+    res.status(200).json({ data: campaigns, count: campaigns.length });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Abandoned Cart Recovery Report *************
+// *********************************************************
+export const getAbandonedCartReport = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { from, to } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "carts", 2);
+    if (!permissionCheck) {
+      return next(new CustomError(403, "Permission denied"));
+    }
+
+    const { start, end } = getReportRange(from, to);
+    const match = { abandonedAt: { $gte: start, $lte: end } };
+
+    const [[summary], byReminder] = await Promise.all([
+      AbandonedCart.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: null,
+            abandonedCarts: { $sum: 1 },
+            abandonedValue: { $sum: "$cartValue" },
+            remindersSent: { $sum: { $size: "$reminders" } },
+            couponsIssued: {
+              $sum: { $cond: [{ $ifNull: ["$couponId", false] }, 1, 0] },
+            },
+            activeCarts: {
+              $sum: { $cond: [{ $eq: ["$status", "Active"] }, 1, 0] },
+            },
+            returnedCarts: {
+              $sum: { $cond: [{ $eq: ["$status", "Returned"] }, 1, 0] },
+            },
+            expiredCarts: {
+              $sum: { $cond: [{ $eq: ["$status", "Expired"] }, 1, 0] },
+            },
+            recoveredCarts: {
+              $sum: { $cond: [{ $eq: ["$status", "Recovered"] }, 1, 0] },
+            },
+            recoveredValue: { $sum: "$recoveredValue" },
+          },
+        },
+      ]),
+      // Recoveries by the last reminder sent before the order
+      AbandonedCart.aggregate([
+        { $match: { ...match, status: "Recovered" } },
+        {
+          $group: {
+            _id: { $max: "$reminders.hoursAfter" },
+            recoveredCarts: { $sum: 1 },
+            recoveredValue: { $sum: "$recoveredValue" },
+            withCoupon: {
+              $sum: { $cond: [{ $ifNull: ["$couponId", false] }, 1, 0] },
+            },
+          },
+        },
+        { $sort: { _id: 1 } },
+      ]),
+    ]);
+
+    const totals = summary ?? {
+      abandonedCarts: 0,
+      abandonedValue: 0,
+      remindersSent: 0,
+      couponsIssued: 0,
+      activeCarts: 0,
+      returnedCarts: 0,
+      expiredCarts: 0,
+      recoveredCarts: 0,
+      recoveredValue: 0,
+    };
+    delete totals._id;
+
+    res.status(200).json({
+      data: {
+        from: start,
+        to: end,
+        ...totals,
+        abandonedValue: Number(totals.abandonedValue.toFixed(2)),
+        recoveredValue: Number(totals.recoveredValue.toFixed(2)),
+        recoveryRate: totals.abandonedCarts
+          ? Number(
+              ((totals.recoveredCarts / totals.abandonedCarts) * 100).toFixed(2)
+            )
+          : 0,
+        byReminder: byReminder.map(({ _id, recoveredValue, ...row }) => ({
+          hoursAfter: _id,
+          ...row,
+          recoveredValue: Number(recoveredValue.toFixed(2)),
+        })),
+      },
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
@@ -5,6 +5,7 @@ import bcrypt from "bcrypt";
 import jwt, { JwtPayload, TokenExpiredError } from "jsonwebtoken";
 import { CustomError } from "../middlewares/error";
 import Cart from "../models/cartModel";
+import { mergeGuestCart } from "./cart.controller";
 import { sendEmail } from "../utils/mailer";
 import { validateInput } from "../utils/validateInput";
 import Role from "../models/role.model";
@@ -26,6 +27,18 @@ const generateRandomPassword = (): string => {
   return crypto.randomBytes(16).toString("hex");
 };
 
+// Merge the caller's guest cart, if any, into their account. A failed merge
+// is logged rather than failing the sign-in.
+const mergeGuestCartOnSignIn = async (req: Request, userId: string) => {
+  const cartToken = req.body.cartToken || req.headers["x-cart-token"];
+  if (typeof cartToken !== "string" || !cartToken) return null;
+
+  return mergeGuestCart(userId, cartToken).catch((err) => {
+    console.error("Guest cart merge failed:", err);
+    return null;
+  });
+};
+
 // ***************************************
 // ********** Register User **************
 // ***************************************
@@ -125,6 +138,8 @@ const register = async (req: Request, res: Response, next: NextFunction) => {
     // Save user and cart in parallel
     await Promise.all([user.save(), cart.save()]);
 
+    const cartMerge = await mergeGuestCartOnSignIn(req, user._id.toString());
+
     // Handle email sending based on registration type
     if (googleId && randomPassword) {
       // Send email with random password for Google users
@@ -145,6 +160,7 @@ const register = async (req: Request, res: Response, next: NextFunction) => {
       accessToken,
       refreshToken,
       user,
+      ...(cartMerge && { cartMerge }),
     });
   } catch (error: any) {
     next(new CustomError(500, error.message));
@@ -414,12 +430,15 @@ const login = async (req: Request, res: Response, next: NextFunction) => {
     if (!decodedToken.exp) throw new Error("Token has no expiration");
     const expiresAt = new Date(decodedToken.exp * 1000);
 
+    const cartMerge = await mergeGuestCartOnSignIn(req, user._id.toString());
+
     res.status(200).json({
       message: "Login successful",
       accessToken,
       refreshToken,
       user,
       expiresAt,
+      ...(cartMerge && { cartMerge }),
     });
   } catch (error) {
     console.error("Login error:", error);
@@ -1,4 +1,5 @@
 import Cart from "../models/cartModel";
+import CartLead from "../models/cart-lead.model";
 import Product from "../models/product.model";
 import Order from "../models/orderModel";
 import { checkPermission } from "../helpers/authHelper";
@@ -6,7 +7,27 @@ import { NextFunction, Request, Response } from "express";
 import User from "../models/user.model";
 import { CustomError } from "../middlewares/error";
 import { Types } from "mongoose";
-import { CartProduct } from "../types/cartTypes";
+import {
+  CartMergeResult,
+  CartProduct,
+  CartRestoreResult,
+} from "../types/cartTypes";
+import { generateGuestCartToken } from "../helpers/generateGuestCartToken";
+import { validateInput } from "../utils/validateInput";
+import { repriceCart, resolveAddOns } from "../services/pricing.service";
+import { transferCartCampaigns } from "../services/abandoned-cart.service";
+import {
+  toFormResponseMap,
+  validateFormResponses,
+} from "../helpers/formResponseHelper";
+
+// Helper function to build the query for the caller's cart: their own cart
+// when signed in, otherwise the guest cart for their cart token
+const getCartOwnerFilter = (req: Request) => {
+  if (req.userId) return { userId: req.userId };
+  if (req.guestCartToken) return { guestToken: req.guestCartToken };
+  return null;
+};
 
 // Helper function to validate cart items
 const validateCartItems = async (products: CartProduct[]) => {
@@ -26,11 +47,25 @@ const validateCartItems = async (products: CartProduct[]) => {
       );
     }
   }
+
+  // Validate each line's add-ons and its answers against the product form
+  for (const item of products) {
+    const product = productMap.get(item.product._id.toString())!;
+    item.addOns = resolveAddOns(product, item.addOns).map(
+      (addOn) => addOn._id!
+    );
+    const { responses } = await validateFormResponses(
+      product,
+      item.formResponses
+    );
+    item.formResponses = toFormResponseMap(responses);
+  }
 };
 
 // Helper function to handle free products
 const handleFreeProducts = async (
-  userId: Types.ObjectId,
+  cartFilter: Record<string, unknown> | null,
+  userId: Types.ObjectId | null,
   products: CartProduct[]
 ) => {
   const productIds = products.map((item) => item.product._id);
@@ -46,13 +81,16 @@ const handleFreeProducts = async (
     .map((product) => product._id.toString());
 
   if (freeProductIds.length > 0) {
+    // Guests have no order history to check until their cart is merged
     const [existingCart, existingOrders] = await Promise.all([
-      Cart.findOne({ userId }),
-      Order.find({
-        userId,
-        "products.product": { $in: freeProductIds },
-        paymentStatus: "Paid",
-      }),
+      cartFilter ? Cart.findOne(cartFilter) : null,
+      userId
+        ? Order.find({
+            userId,
+            "products.product": { $in: freeProductIds },
+            paymentStatus: "Paid",
+          })
+        : [],
     ]);
 
     // Check if free products are already in the cart
@@ -93,13 +131,148 @@ const handleFreeProducts = async (
   }
 };
 
-// Helper function to recalculate cart totals
-const recalculateCartTotals = (cart: any) => {
-  cart.totalQuantity = cart.products.length;
-  cart.totalPrice = cart.products.reduce(
-    (acc: number, product: any) => acc + product.totalPrice,
-    0
+// Line fields set by the server, which customers cannot update
+const SERVER_MANAGED_LINE_FIELDS = [
+  "product",
+  "unitPrice",
+  "totalPrice",
+  "quotedPrice",
+  "priceChanged",
+  "unavailable",
+  "addedAt",
+];
+
+// Helper to validate lines and add them to the owner's cart, creating the
+// cart when there is none. Guests get a new cart token. With `replace` the
+// lines take the place of the cart's contents in the same save.
+export const addLinesToCart = async (
+  cartFilter: Record<string, unknown> | null,
+  userId: string | null | undefined,
+  products: CartProduct[],
+  replace = false
+) => {
+  // Validate cart items and handle free products in parallel
+  await Promise.all([
+    validateCartItems(products),
+    handleFreeProducts(
+      replace ? null : cartFilter,
+      userId ? new Types.ObjectId(userId) : null,
+      products
+    ),
+  ]);
+
+  // Find the caller's cart or create one if it doesn't exist
+  let cart = cartFilter ? await Cart.findOne(cartFilter) : null;
+
+  if (!cart) {
+    cart = new Cart({
+      ...(userId
+        ? { userId }
+        : { guestToken: generateGuestCartToken() }),
+      products: [],
+      totalQuantity: 0,
+      totalPrice: 0,
+    });
+
+    // Update the user's cart reference
+    if (userId) {
+      await User.findByIdAndUpdate(userId, { cart: cart._id });
+    }
+  }
+
+  // Add items to the cart
+  if (replace) {
+    cart.set("products", []);
+  }
+  const addedLineIds: string[] = [];
+  for (const item of products) {
+    cart.products.push(item);
+    addedLineIds.push(String(cart.products[cart.products.length - 1]._id));
+  }
+
+  // Price the lines from current product data and recalculate totals
+  await repriceCart(cart, addedLineIds);
+  const unavailableLine = cart.products.find(
+    (line) => line.unavailable && addedLineIds.includes(String(line._id))
   );
+  if (unavailableLine) {
+    throw new CustomError(
+      400,
+      `Product with ID ${unavailableLine.product._id} is not available.`
+    );
+  }
+
+  // Save the cart
+  await cart.save();
+
+  return cart;
+};
+
+// Helper to put lines from a past order or a saved cart back in a user's
+// cart, replacing its contents unless `append` is set. Each line is checked
+// again against the current product, add-ons, form and free product rules;
+// lines that no longer pass are skipped and reported rather than failing
+// the rest. The cart is left untouched when no line can be added.
+export const restoreCartLines = async (
+  userId: string,
+  lines: CartProduct[],
+  append = false
+) => {
+  const result: CartRestoreResult = { added: 0, skipped: [] };
+
+  const products = await Product.find({
+    _id: { $in: lines.map((line) => line.product._id) },
+  })
+    .select("status isFreeProduct")
+    .lean();
+  const productMap = new Map(
+    products.map((product) => [product._id.toString(), product])
+  );
+
+  const cartFilter = { userId };
+  const restorable: CartProduct[] = [];
+  for (const line of lines) {
+    const productId = line.product._id.toString();
+    const skip = (reason: string) =>
+      result.skipped.push({ product: line.product._id, reason });
+
+    const product = productMap.get(productId);
+    if (!product || product.status !== "active") {
+      skip("Product is no longer available");
+      continue;
+    }
+    // A free product can only be restored once
+    if (
+      product.isFreeProduct &&
+      restorable.some((item) => item.product._id.toString() === productId)
+    ) {
+      skip("Free product already in cart");
+      continue;
+    }
+
+    try {
+      await validateCartItems([line]);
+      await handleFreeProducts(
+        append ? cartFilter : null,
+        new Types.ObjectId(userId),
+        [line]
+      );
+    } catch (error) {
+      if (!(error instanceof CustomError)) throw error;
+      skip(error.message);
+      continue;
+    }
+    restorable.push(line);
+  }
+
+  if (restorable.length === 0) {
+    return { cart: null, result };
+  }
+
+  const cart = await addLinesToCart(cartFilter, userId, restorable, !append);
+  result.added = restorable.length;
+
+  return { cart, result };
 };
 
 // *********************************************************
@@ -118,37 +291,11 @@ export const syncOrAddToCart = async (
       return next(new CustomError(400, "Cart cannot be empty."));
     }
 
-    // Validate cart items and handle free products in parallel
-    await Promise.all([
-      validateCartItems(products),
-      handleFreeProducts(new Types.ObjectId(userId), products),
-    ]);
-
-    // Find the user's cart or create one if it doesn't exist
-    let cart = await Cart.findOne({ userId });
-
-    if (!cart) {
-      cart = new Cart({
-        userId,
-        products: [],
-        totalQuantity: 0,
-        totalPrice: 0,
-      });
-
-      // Update the user's cart reference
-      await User.findByIdAndUpdate(userId, { cart: cart._id });
-    }
-
-    // Add items to the cart
-    for (const item of products) {
-      cart.products.push(item);
-    }
-
-    // Recalculate total quantity and price
-    recalculateCartTotals(cart);
-
-    // Save the cart
-    await cart.save();
+    const cart = await addLinesToCart(
+      getCartOwnerFilter(req),
+      userId,
+      products
+    );
 
     // Populate the product field in the cart
     const populatedCart = await Cart.findById(cart._id).populate({
@@ -162,9 +309,12 @@ export const syncOrAddToCart = async (
     res.status(200).json({
       message: "Product added successfully",
       cart: populatedCart,
+      ...(cart.guestToken && { cartToken: cart.guestToken }),
     });
   } catch (error: any) {
-    next(new CustomError(500, error.message));
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
   }
 };
 
@@ -182,15 +332,35 @@ export const getUserCart = async (
 
     // Check Permission
     if (customerId) {
+      if (!userId) {
+        return next(new CustomError(401, "No token provided"));
+      }
       const permissionCheck = await checkPermission(userId, "carts", 2);
       if (!permissionCheck) {
         return next(new CustomError(403, "Permission denied"));
       }
     }
 
-    // Fetch cart based on customerId or all carts
-    const targetUserId = customerId ? customerId : userId;
-    const cart = await Cart.findOne({ userId: targetUserId }).populate({
+    // Fetch the customer's cart, or the caller's own or guest cart
+    const cartFilter = customerId
+      ? { userId: customerId }
+      : getCartOwnerFilter(req);
+    const storedCart = cartFilter ? await Cart.findOne(cartFilter) : null;
+
+    if (
+      !storedCart ||
+      (customerId && storedCart.userId?.toString() !== customerId)
+    ) {
+      return res.status(404).json({ message: "Cart not found for this user." });
+    }
+
+    // Prices always reflect current product data; changed lines are flagged
+    await repriceCart(storedCart);
+    if (storedCart.isModified()) {
+      await storedCart.save();
+    }
+
+    const cart = await storedCart.populate({
       path: "products.product",
       populate: {
         path: "subCategory",
@@ -198,10 +368,6 @@ export const getUserCart = async (
       },
     });
 
-    if (!cart || (customerId && cart.userId.toString() !== customerId)) {
-      return res.status(404).json({ message: "Cart not found for this user." });
-    }
-
     return res.status(200).json({
       message: "Cart data fetched successfully",
       cart,
@@ -220,15 +386,15 @@ export const updateCart = async (
   next: NextFunction
 ) => {
   try {
-    const { userId } = req;
     const { cartItemId, ...updateFields } = req.body;
 
     if (!cartItemId) {
       return next(new CustomError(400, "Product entry ID is required."));
     }
 
-    // Find the user's cart
-    const cart = await Cart.findOne({ userId });
+    // Find the caller's cart
+    const cartFilter = getCartOwnerFilter(req);
+    const cart = cartFilter ? await Cart.findOne(cartFilter) : null;
     if (!cart) {
       return next(new CustomError(404, "Cart not found."));
     }
@@ -250,6 +416,34 @@ export const updateCart = async (
     const updatedProduct: Record<string, any> = { ...product.toObject() };
     let hasChanges = false;
 
+    // Add-ons and answers are validated against the product before being
+    // applied
+    if (
+      updateFields.addOns !== undefined ||
+      updateFields.formResponses !== undefined
+    ) {
+      const productDoc = await Product.findById(product.product).select(
+        "name formId formVersion addOns"
+      );
+      if (!productDoc) {
+        return next(new CustomError(404, "Product not found."));
+      }
+      if (updateFields.addOns !== undefined) {
+        updateFields.addOns = resolveAddOns(productDoc, updateFields.addOns).map(
+          (addOn) => addOn._id!
+        );
+      }
+      if (updateFields.formResponses !== undefined) {
+        const { responses } = await validateFormResponses(
+          productDoc,
+          updateFields.formResponses
+        );
+        updateFields.formResponses = toFormResponseMap(responses);
+      }
+    }
+
+    SERVER_MANAGED_LINE_FIELDS.forEach((key) => delete updateFields[key]);
+
     Object.keys(updateFields).forEach((key) => {
       if (key in product && updateFields[key] !== undefined) {
         updatedProduct[key] = updateFields[key];
@@ -280,8 +474,8 @@ export const updateCart = async (
       }
     });
 
-    // Recalculate total quantity and total price
-    recalculateCartTotals(cart);
+    // Re-price the lines and recalculate total quantity and total price
+    await repriceCart(cart, [cartItemId]);
 
     // Save the updated cart
     await cart.save();
@@ -300,7 +494,9 @@ export const updateCart = async (
       cart: populatedCart,
     });
   } catch (error: any) {
-    next(new CustomError(500, error.message));
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
   }
 };
 // ***************************************
@@ -312,7 +508,6 @@ export const deleteProduct = async (
   next: NextFunction
 ) => {
   try {
-    const { userId } = req;
     const { cartItemId } = req.query;
 
     if (!cartItemId) {
@@ -320,7 +515,8 @@ export const deleteProduct = async (
     }
 
     // Check if the cart exists
-    const cart = await Cart.findOne({ userId: userId });
+    const cartFilter = getCartOwnerFilter(req);
+    const cart = cartFilter ? await Cart.findOne(cartFilter) : null;
     if (!cart) {
       return next(new CustomError(404, "Cart not found."));
     }
@@ -337,8 +533,8 @@ export const deleteProduct = async (
     // Remove the product from the cart
     cart.products.splice(productIndex, 1);
 
-    // Recalculate total quantity and total price
-    recalculateCartTotals(cart);
+    // Re-price the remaining lines and recalculate totals
+    await repriceCart(cart);
 
     // Save the updated cart
     await cart.save();
@@ -384,7 +580,7 @@ export const emptyCart = async (
     // Fetch cart based on customerId or all carts
     const query = customerId ? { userId: customerId } : {};
     const cart = await Cart.findOne(query);
-    if (!cart || (customerId && cart.userId.toString() !== customerId)) {
+    if (!cart || (customerId && cart.userId?.toString() !== customerId)) {
       return next(new CustomError(404, "Cart not found"));
     }
 
@@ -410,3 +606,262 @@ export const emptyCart = async (
     next(new CustomError(500, error.message));
   }
 };
+
+// ***************************************
+// ********* Reorder a Past Order ********
+// ***************************************
+export const reorder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId } = req.query;
+    const { append } = req.body;
+
+    if (!orderId) {
+      return next(new CustomError(400, "orderId is required"));
+    }
+
+    const order = await Order.findOne({ _id: orderId, userId })
+      .select("products")
+      .lean();
+    if (!order) {
+      return next(new CustomError(404, "Order not found"));
+    }
+
+    // Order lines store labelled answers and priced add-ons; the cart keeps
+    // answers by field name and add-on IDs
+    const lines = order.products.map((item) => ({
+      product: { _id: item.product } as any,
+      wordCount: item.wordCount,
+      quantity: item.quantity,
+      additionalInfo: item.additionalInfo,
+      addOns: (item.addOns ?? []).map((addOn) => addOn.addOn),
+      formResponses: toFormResponseMap(item.formResponses ?? []),
+      totalPrice: 0,
+    }));
+
+    const { cart, result } = await restoreCartLines(
+      userId,
+      lines,
+      Boolean(append)
+    );
+    if (!cart) {
+      return res.status(400).json({
+        message: "None of the products in this order can be ordered again.",
+        ...result,
+      });
+    }
+
+    const populatedCart = await Cart.findById(cart._id).populate({
+      path: "products.product",
+    });
+
+    res.status(200).json({
+      message:
+        result.skipped.length > 0
+          ? "Some products could not be added to the cart"
+          : "Order added to cart",
+      cart: populatedCart,
+      ...result,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// Helper to merge a guest cart into a user's cart on sign-in, then remove
+// it. Free products the user already has or has bought are skipped, and the
+// same item added on both sides is kept once at the larger quantity.
+export const mergeGuestCart = async (
+  userId: string,
+  guestToken: string
+): Promise<CartMergeResult | null> => {
+  const guestCart = await Cart.findOne({ guestToken });
+  if (!guestCart) return null;
+
+  let cart = await Cart.findOne({ userId });
+  if (!cart) {
+    cart = new Cart({ userId, products: [], totalQuantity: 0, totalPrice: 0 });
+    await User.findByIdAndUpdate(userId, { cart: cart._id });
+  }
+
+  const productIds = guestCart.products.map((line) => line.product._id);
+  const [products, paidOrders] = await Promise.all([
+    Product.find({ _id: { $in: productIds } })
+      .select("isFreeProduct")
+      .lean(),
+    Order.find({
+      userId,
+      "products.product": { $in: productIds },
+      paymentStatus: "Paid",
+    })
+      .select("products.product")
+      .lean(),
+  ]);
+  const productMap = new Map(
+    products.map((product) => [product._id.toString(), product])
+  );
+  const purchasedIds = new Set(
+    paidOrders.flatMap((order) =>
+      order.products.map((item) => item.product.toString())
+    )
+  );
+
+  // Lines match when everything the customer chose is the same
+  const lineKey = (line: any) =>
+    JSON.stringify([
+      line.wordCount ?? null,
+      (line.addOns ?? []).map(String).sort(),
+      line.formResponses ?? {},
+    ]);
+
+  const result: CartMergeResult = { merged: 0, skipped: [] };
+  const changedLineIds: string[] = [];
+
+  for (const line of guestCart.products) {
+    const productId = line.product._id.toString();
+    const product = productMap.get(productId);
+    const skip = (reason: string) =>
+      result.skipped.push({ product: line.product._id, reason });
+
+    if (!product) {
+      skip("Product no longer exists");
+      continue;
+    }
+
+    const sameProductLines = cart.products.filter(
+      (item) => item.product._id.toString() === productId
+    );
+    if (product.isFreeProduct) {
+      if (purchasedIds.has(productId)) {
+        skip("Free product already purchased");
+        continue;
+      }
+      if (sameProductLines.length > 0) {
+        skip("Free product already in cart");
+        continue;
+      }
+    }
+
+    const duplicate = sameProductLines.find(
+      (item) => lineKey(item) === lineKey(line)
+    );
+    if (duplicate) {
+      if (line.quantity > duplicate.quantity) {
+        duplicate.quantity = line.quantity;
+        changedLineIds.push(String(duplicate._id));
+      }
+      result.merged += 1;
+      continue;
+    }
+
+    const { _id, ...guestLine } = (line as any).toObject();
+    cart.products.push(guestLine);
+    changedLineIds.push(String(cart.products[cart.products.length - 1]._id));
+    result.merged += 1;
+  }
+
+  await repriceCart(cart, changedLineIds);
+  await cart.save();
+
+  await Promise.all([
+    Cart.deleteOne({ _id: guestCart._id }),
+    transferCartCampaigns(guestCart._id, cart._id, userId),
+    CartLead.updateOne(
+      { guestToken, status: "Open" },
+      { status: "Converted", userId, convertedAt: new Date() }
+    ),
+  ]);
+
+  return result;
+};
+
+// *********************************************************
+// ************ Save Guest Contact Details *****************
+// *********************************************************
+export const saveGuestContact = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, guestCartToken } = req;
+    const { name, email, contact } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    if (userId) {
+      throw new CustomError(400, "Contact details are only needed for guests.");
+    }
+
+    const cart = guestCartToken
+      ? await Cart.findOne({ guestToken: guestCartToken })
+      : null;
+    if (!cart) {
+      throw new CustomError(404, "Cart not found.");
+    }
+
+    cart.guestContact = { name: name || null, email, contact: contact || null };
+    await cart.save();
+
+    // Keep one lead per guest cart, refreshed with its latest contents
+    await CartLead.findOneAndUpdate(
+      { guestToken: cart.guestToken },
+      {
+        name: name || null,
+        email,
+        contact: contact || null,
+        products: cart.products.map((line) => line.product._id),
+        cartTotal: cart.totalPrice,
+      },
+      { upsert: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(200).json({
+      message: "Contact details saved successfully",
+      guestContact: cart.guestContact,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// ***************************************
+// ********* Get Guest Cart Leads ********
+// ***************************************
+export const getCartLeads = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { status } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "carts", 2);
+    if (!permissionCheck) {
+      return next(new CustomError(403, "Permission denied"));
+    }
+
+    const leads = await CartLead.find(status ? { status } : {})
+      .populate("products", "name slug")
+      .populate("userId", "name email")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.status(200).json({ data: leads, count: leads.length });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
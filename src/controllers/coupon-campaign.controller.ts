@@ -0,0 +1,517 @@
+import { randomInt } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import Coupon from "../models/coupon.model";
+import CouponCampaign from "../models/coupon-campaign.model";
+import Order from "../models/orderModel";
+import { CustomError } from "../middlewares/error";
+import { checkPermission } from "../helpers/authHelper";
+import { validateInput } from "../utils/validateInput";
+import { validateDiscountVsMinOrder } from "../services/promotion.service";
+import { CouponCampaignTypes, CouponRules } from "../types/coupon.types";
+
+const CODE_BATCH_SIZE = 1000;
+const CODE_LENGTH = 8;
+// Letters and digits that cannot be misread for each other
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const RULE_FIELDS: (keyof CouponRules)[] = [
+  "couponApplicableOn",
+  "couponType",
+  "discountType",
+  "discountValue",
+  "buyQuantity",
+  "getQuantity",
+  "getDiscountPercent",
+  "spendTiers",
+  "firstOrderOnly",
+  "stacking",
+  "priority",
+  "minOrderAmount",
+  "maxDiscountAmount",
+  "specificProducts",
+  "productCategories",
+  "minQuantity",
+  "maxQuantity",
+  "maxWordCount",
+  "startsAt",
+  "endsAt",
+  "targetUsers",
+  "targetRoles",
+  "customerType",
+  "emailDomains",
+];
+
+// Helper to read the shared rules from a request body
+const pickRules = (body: Record<string, any>): Partial<CouponRules> =>
+  Object.fromEntries(
+    RULE_FIELDS.filter((field) => body[field] !== undefined).map((field) => [
+      field,
+      body[field],
+    ])
+  );
+
+// Helper to check campaign rules the same way a single coupon is checked,
+// before any code is generated from them
+const assertValidRules = async (rules: Partial<CouponRules>, userId: string) => {
+  validateDiscountVsMinOrder(rules);
+  try {
+    await new Coupon({
+      ...rules,
+      code: "CAMPAIGN-RULES",
+      source: "campaign",
+      createdBy: userId,
+    }).validate();
+  } catch (error: any) {
+    throw new CustomError(400, error.message);
+  }
+};
+
+const randomCode = () =>
+  Array.from(
+    { length: CODE_LENGTH },
+    () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]
+  ).join("");
+
+// Helper to generate unique single-use codes for a campaign, in batches.
+// Codes already used by another coupon are drawn again. Each batch is
+// counted as soon as it is inserted, so a failed batch leaves the count
+// matching the codes that exist.
+const generateCampaignCodes = async (
+  campaign: CouponCampaignTypes & { _id: Types.ObjectId },
+  quantity: number,
+  userId: string
+): Promise<number> => {
+  let created = 0;
+  while (created < quantity) {
+    const candidates = new Set<string>();
+    while (candidates.size < Math.min(CODE_BATCH_SIZE, quantity - created)) {
+      candidates.add(`${campaign.prefix}-${randomCode()}`);
+    }
+
+    const taken = new Set<string>(
+      await Coupon.distinct("code", { code: { $in: [...candidates] } })
+    );
+    const codes = [...candidates].filter((code) => !taken.has(code));
+
+    await Coupon.insertMany(
+      codes.map((code) => ({
+        ...campaign.rules,
+        code,
+        status: campaign.status,
+        usageLimitPerUser: 1,
+        totalUsageLimit: 1,
+        source: "campaign",
+        campaignId: campaign._id,
+        createdBy: userId,
+        updatedBy: userId,
+      }))
+    );
+    await CouponCampaign.updateOne(
+      { _id: campaign._id },
+      { $inc: { codeCount: codes.length } }
+    );
+    created += codes.length;
+  }
+
+  return created;
+};
+
+// Helper to work out redemption stats per campaign: how many codes were
+// redeemed, and the paid orders and discount they account for
+export const getCampaignStats = async (campaignIds?: Types.ObjectId[]) => {
+  const campaignFilter = campaignIds
+    ? { $in: campaignIds }
+    : { $ne: null as null };
+
+  const [codeStats, orderStats] = await Promise.all([
+    Coupon.aggregate([
+      { $match: { campaignId: campaignFilter } },
+      {
+        $group: {
+          _id: "$campaignId",
+          totalCodes: { $sum: 1 },
+          activeCodes: {
+            $sum: { $cond: [{ $eq: ["$status", "Active"] }, 1, 0] },
+          },
+          redeemedCodes: {
+            $sum: { $cond: [{ $gt: ["$usedCount", 0] }, 1, 0] },
+          },
+        },
+      },
+    ]),
+    Order.aggregate([
+      {
+        $match: {
+          paymentStatus: { $in: ["Paid", "Partially Refunded"] },
+          "promotions.0": { $exists: true },
+        },
+      },
+      { $unwind: "$promotions" },
+      {
+        $lookup: {
+          from: Coupon.collection.name,
+          localField: "promotions.coupon",
+          foreignField: "_id",
+          pipeline: [{ $project: { campaignId: 1 } }],
+          as: "coupon",
+        },
+      },
+      { $unwind: "$coupon" },
+      { $match: { "coupon.campaignId": campaignFilter } },
+      {
+        $group: {
+          _id: "$coupon.campaignId",
+          orders: { $sum: 1 },
+          discountGiven: { $sum: "$promotions.discount" },
+          revenue: { $sum: "$finalPrice" },
+        },
+      },
+    ]),
+  ]);
+
+  const campaigns = await CouponCampaign.find(
+    campaignIds ? { _id: { $in: campaignIds } } : {}
+  )
+    .select("name prefix status createdAt")
+    .sort({ createdAt: -1 })
+    .lean();
+
+  return campaigns.map((campaign) => {
+    const codes = codeStats.find((row) => row._id.equals(campaign._id));
+    const orders = orderStats.find((row) => row._id.equals(campaign._id));
+    const totalCodes = codes?.totalCodes ?? 0;
+    const redeemedCodes = codes?.redeemedCodes ?? 0;
+
+    return {
+      campaignId: campaign._id,
+      name: campaign.name,
+      prefix: campaign.prefix,
+      status: campaign.status,
+      totalCodes,
+      activeCodes: codes?.activeCodes ?? 0,
+      redeemedCodes,
+      redemptionRate: totalCodes
+        ? Number(((redeemedCodes / totalCodes) * 100).toFixed(2))
+        : 0,
+      orders: orders?.orders ?? 0,
+      discountGiven: Number((orders?.discountGiven ?? 0).toFixed(2)),
+      revenue: Number((orders?.revenue ?? 0).toFixed(2)),
+    };
+  });
+};
+
+// Helper to find when a code was last redeemed, by any customer
+const getLastRedeemedAt = (usages: { lastUsedAt?: Date | null }[]) =>
+  usages.reduce<Date | null>(
+    (latest, usage) =>
+      usage.lastUsedAt && (!latest || usage.lastUsedAt > latest)
+        ? usage.lastUsedAt
+        : latest,
+    null
+  );
+
+// Helper to quote a value for a CSV cell when it needs it
+const toCsvValue = (value: unknown) => {
+  const text = value instanceof Date ? value.toISOString() : String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// *********************************************************
+// ************ Create a Coupon Campaign *******************
+// *********************************************************
+export const createCouponCampaign = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, body } = req;
+    const { name, description, prefix, quantity } = body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 0);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    if (await CouponCampaign.exists({ name })) {
+      throw new CustomError(409, `A campaign named "${name}" already exists`);
+    }
+
+    const rules = pickRules(body);
+    await assertValidRules(rules, userId);
+
+    const campaign = await CouponCampaign.create({
+      name,
+      description,
+      prefix,
+      rules,
+      createdBy: userId,
+      updatedBy: userId,
+    });
+
+    const generated = await generateCampaignCodes(
+      campaign.toObject(),
+      quantity,
+      userId
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Campaign created with ${generated} codes`,
+      data: await CouponCampaign.findById(campaign._id),
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Generate More Codes for a Campaign *********
+// *********************************************************
+export const addCampaignCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+    const { quantity } = req.body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 0);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+    if (!id) {
+      throw new CustomError(400, "Campaign ID is required in query parameters");
+    }
+
+    const campaign = await CouponCampaign.findById(id).lean();
+    if (!campaign) {
+      throw new CustomError(404, "Campaign not found");
+    }
+
+    const generated = await generateCampaignCodes(campaign, quantity, userId);
+
+    res.status(201).json({
+      success: true,
+      message: `${generated} codes generated`,
+      data: await CouponCampaign.findById(campaign._id),
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Retrieve Coupon Campaigns ******************
+// *********************************************************
+export const getCouponCampaigns = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 1);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    if (id) {
+      const campaign = await CouponCampaign.findById(id)
+        .populate("createdBy", "_id name image email")
+        .populate("updatedBy", "_id name image email")
+        .lean();
+      if (!campaign) {
+        throw new CustomError(404, "Campaign not found");
+      }
+
+      const [stats] = await getCampaignStats([campaign._id]);
+      return res.status(200).json({
+        message: "Campaign fetched successfully",
+        data: { ...campaign, stats },
+      });
+    }
+
+    const campaigns = await CouponCampaign.find()
+      .sort({ createdAt: -1 })
+      .populate("createdBy", "_id name image email")
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      message: "Campaigns fetched successfully",
+      data: campaigns,
+      count: campaigns.length,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Update a Coupon Campaign *******************
+// *********************************************************
+export const updateCouponCampaign = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, body } = req;
+    const { id } = req.query;
+    const { name, description, status } = body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 2);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+    if (!id) {
+      throw new CustomError(400, "Campaign ID is required in query parameters");
+    }
+
+    const campaign = await CouponCampaign.findById(id);
+    if (!campaign) {
+      throw new CustomError(404, "Campaign not found");
+    }
+
+    if (name !== undefined && name !== campaign.name) {
+      if (await CouponCampaign.exists({ name, _id: { $ne: campaign._id } })) {
+        throw new CustomError(409, `A campaign named "${name}" already exists`);
+      }
+      campaign.name = name;
+    }
+    if (description !== undefined) campaign.description = description;
+    if (status !== undefined) campaign.status = status;
+
+    const ruleUpdates = pickRules(body);
+    const rules = { ...campaign.rules, ...ruleUpdates };
+    await assertValidRules(rules, userId);
+    campaign.rules = rules;
+    campaign.updatedBy = new Types.ObjectId(userId);
+    await campaign.save();
+
+    // Every code follows the campaign; redemption state is left alone
+    await Coupon.updateMany(
+      { campaignId: campaign._id },
+      { ...ruleUpdates, updatedBy: userId }
+    );
+    // A status change skips codes that have already expired
+    if (status !== undefined) {
+      await Coupon.updateMany(
+        { campaignId: campaign._id, status: { $ne: "Expired" } },
+        { status }
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Campaign updated successfully",
+      data: campaign,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Export Campaign Codes as CSV ***************
+// *********************************************************
+export const exportCampaignCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id, redeemed } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 1);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    if (!id) {
+      throw new CustomError(400, "Campaign ID is required in query parameters");
+    }
+
+    const campaign = await CouponCampaign.findById(id).select("name").lean();
+    if (!campaign) {
+      throw new CustomError(404, "Campaign not found");
+    }
+
+    // ?redeemed=true or false limits the export to redeemed or unused codes
+    const filter: Record<string, any> = { campaignId: campaign._id };
+    if (redeemed !== undefined) {
+      filter.usedCount = redeemed === "true" ? { $gt: 0 } : 0;
+    }
+
+    const codes = await Coupon.find(filter)
+      .select("code status usedCount userUsage endsAt")
+      .populate<{
+        userUsage: {
+          userId: { email: string } | null;
+          lastUsedAt?: Date | null;
+        }[];
+      }>(
+        "userUsage.userId",
+        "email"
+      )
+      .sort({ createdAt: 1 })
+      .lean();
+
+    const rows = [
+      ["code", "status", "redeemed", "redeemedBy", "lastRedeemedAt", "endsAt"],
+      ...codes.map((code) => [
+        code.code,
+        code.status,
+        (code.usedCount ?? 0) > 0 ? "yes" : "no",
+        code.userUsage
+          .map((usage) => usage.userId?.email)
+          .filter(Boolean)
+          .join(" "),
+        getLastRedeemedAt(code.userUsage) ?? "",
+        code.endsAt ?? "",
+      ]),
+    ];
+    const csv = rows.map((row) => row.map(toCsvValue).join(",")).join("\r\n");
+
+    const fileName = campaign.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase();
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${fileName || "campaign"}-codes.csv"`
+    );
+    res.status(200).send(csv);
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
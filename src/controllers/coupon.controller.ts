@@ -6,284 +6,178 @@ import { validateInput } from "../utils/validateInput";
 import { NextFunction, Request, Response } from "express";
 import Product from "../models/product.model";
 import Product_Category from "../models/product-category.model";
+import { priceLines } from "../services/pricing.service";
+import {
+  evaluatePromotions,
+  validateDiscountVsMinOrder,
+} from "../services/promotion.service";
+import { getCampaignStats } from "./coupon-campaign.controller";
+
+// Helper to reserve one use of each coupon for an unpaid order. The limit
+// check and the reservation are one update, so concurrent checkouts can't
+// both take the last use. Nothing stays reserved if any coupon is used up.
+export const reserveCoupons = async (
+  couponIds: Types.ObjectId[],
+  orderId: Types.ObjectId,
+  userId: string
+): Promise<void> => {
+  const userObjectId = new Types.ObjectId(userId);
+  // Coupons created before reservations existed have no reservations array
+  const orEmpty = (path: string) => ({ $ifNull: [path, []] });
+  const forUser = (path: string) => ({
+    $filter: {
+      input: orEmpty(path),
+      cond: { $eq: ["$$this.userId", userObjectId] },
+    },
+  });
 
-// Helper function to validate discount against minimum order amount
-const validateDiscountVsMinOrder = (coupon: any) => {
-  if (coupon.minOrderAmount && coupon.discountType === "flat") {
-    if (coupon.discountValue > coupon.minOrderAmount) {
-      throw new CustomError(
-        400,
-        `Discount value ($${coupon.discountValue}) cannot exceed the minimum order amount ($${coupon.minOrderAmount}) for a flat discount coupon`
-      );
-    }
-  }
-};
-
-// Helper function to calculate discount
-export const calculateDiscount = (
-  coupon: any,
-  cartData: {
-    products: {
-      product:
-        | Types.ObjectId
-        | { _id: Types.ObjectId; category: Types.ObjectId };
-      quantity: number;
-      wordCount: number;
-      totalPrice: number;
-      [key: string]: any;
-    }[];
-    totalPrice: number;
-    totalQuantity: number;
-  }
-): {
-  discount: number;
-  discountedTotal: number;
-  appliedTo?: Types.ObjectId[];
-} => {
-  let discount = 0;
-  let discountedTotal = cartData.totalPrice;
-  let appliedTo: Types.ObjectId[] = [];
-
-  // Validate discount vs minimum order amount
-  validateDiscountVsMinOrder(coupon);
-
-  // Filter products based on couponApplicableOn
-  let eligibleProducts = cartData.products;
-  if (coupon.couponApplicableOn === "specificProducts") {
-    eligibleProducts = cartData.products.filter((p) =>
-      coupon.specificProducts.some((sp: Types.ObjectId) =>
-        sp.equals(typeof p.product === "object" ? p.product._id : p.product)
-      )
-    );
-  } else if (coupon.couponApplicableOn === "productCategories") {
-    eligibleProducts = cartData.products.filter((p) =>
-      coupon.productCategories.some((cat: Types.ObjectId) =>
-        cat.equals(
-          typeof p.product === "object" && "category" in p.product
-            ? p.product.category
-            : p.product
-        )
-      )
-    );
-  }
-
-  if (
-    (coupon.couponApplicableOn === "specificProducts" ||
-      coupon.couponApplicableOn === "productCategories") &&
-    eligibleProducts.length === 0
-  ) {
-    throw new CustomError(
-      400,
-      `No qualifying products found for coupon "${coupon.code}"`
-    );
-  }
-
-  // Special handling for 100% off coupons (percentage only)
-  if (coupon.discountType === "percentage" && coupon.discountValue === 100) {
-    const qualifyingProducts = eligibleProducts.filter(
-      (product) =>
-        !coupon.maxWordCount || product.wordCount <= coupon.maxWordCount
-    );
-
-    if (qualifyingProducts.length === 0) {
-      throw new CustomError(
-        400,
-        coupon.maxWordCount
-          ? `Coupon "${coupon.code}" requires items with ≤ ${coupon.maxWordCount} words`
-          : `No items qualify for coupon "${coupon.code}"`
-      );
-    }
-
-    const productToDiscount = qualifyingProducts.reduce((lowest, current) =>
-      current.totalPrice < lowest.totalPrice ? current : lowest
-    );
-
-    if (productToDiscount.quantity !== 1) {
-      throw new CustomError(
-        400,
-        `"${coupon.code}" applies to single-item purchases only. Please remove other items and set quantity to 1 to enjoy this discount.`
-      );
+  for (const couponId of couponIds) {
+    const reserved = await Coupon.findOneAndUpdate(
+      {
+        _id: couponId,
+        "reservations.orderId": { $ne: orderId },
+        $expr: {
+          $and: [
+            {
+              $lt: [
+                {
+                  $add: [
+                    { $ifNull: ["$usedCount", 0] },
+                    { $size: orEmpty("$reservations") },
+                  ],
+                },
+                "$totalUsageLimit",
+              ],
+            },
+            {
+              $lt: [
+                {
+                  $add: [
+                    {
+                      $sum: {
+                        $map: {
+                          input: forUser("$userUsage"),
+                          in: "$$this.usageCount",
+                        },
+                      },
+                    },
+                    { $size: forUser("$reservations") },
+                  ],
+                },
+                "$usageLimitPerUser",
+              ],
+            },
+          ],
+        },
+      },
+      {
+        $push: {
+          reservations: {
+            orderId,
+            userId: userObjectId,
+            reservedAt: new Date(),
+          },
+        },
+      },
+      { new: true }
+    ).select("code");
+
+    // Already held for this order, e.g. on a retried webhook
+    if (
+      !reserved &&
+      (await Coupon.exists({ _id: couponId, "reservations.orderId": orderId }))
+    ) {
+      continue;
     }
 
-    discount = productToDiscount.totalPrice;
-    discountedTotal = cartData.totalPrice - discount;
-    appliedTo = [
-      typeof productToDiscount.product === "object"
-        ? productToDiscount.product._id
-        : productToDiscount.product,
-    ];
-
-    return { discount, discountedTotal, appliedTo };
-  }
-
-  // Check couponType
-  if (coupon.couponType === "quantityBased") {
-    const hasEnoughQuantity = eligibleProducts.some(
-      (p) => p.quantity >= (coupon.minQuantity || 1)
-    );
-    if (!hasEnoughQuantity) {
+    if (!reserved) {
+      await releaseCouponReservations(orderId);
+      const coupon = await Coupon.findById(couponId).select("code");
       throw new CustomError(
-        400,
-        `Minimum quantity of ${coupon.minQuantity} required for coupon "${coupon.code}"`
+        409,
+        `Coupon "${coupon?.code ?? ""}" has just reached its usage limit. Please review your cart.`
       );
     }
   }
-
-  // Calculate discount based on discountType
-  const eligibleTotal = eligibleProducts.reduce(
-    (sum, p) => sum + p.totalPrice,
-    0
-  );
-  if (coupon.discountType === "percentage") {
-    if (cartData.totalPrice < (coupon.minOrderAmount || 0)) {
-      throw new CustomError(400, "Minimum order amount not met");
-    }
-    discount = (eligibleTotal * coupon.discountValue) / 100;
-    discount = Math.min(discount, coupon.maxDiscountAmount || Infinity);
-  } else if (coupon.discountType === "flat") {
-    if (cartData.totalPrice < (coupon.minOrderAmount || 0)) {
-      throw new CustomError(400, "Minimum order amount not met");
-    }
-    discount = coupon.discountValue;
-    discount = Math.min(discount, coupon.maxDiscountAmount || Infinity);
-  } else {
-    throw new CustomError(400, "Invalid discount type");
-  }
-
-  appliedTo = eligibleProducts.map((p) =>
-    typeof p.product === "object" ? p.product._id : p.product
-  );
-  discountedTotal = Math.max(0, cartData.totalPrice - discount);
-  return { discount, discountedTotal, appliedTo };
 };
 
-// Helper to validate and apply coupon
-export const applyCoupon = async (
-  couponCode: string | undefined,
-  cart: any,
-  userId: string
-): Promise<{
-  coupon: any;
-  discountUSD: number;
-  finalPriceUSD: number;
-  appliedTo?: Types.ObjectId[];
-  message?: string;
-}> => {
-  let discountUSD = 0;
-  let finalPriceUSD = cart.totalPrice;
-  let appliedTo: Types.ObjectId[] = [];
-
-  // Find active coupon
-  const coupon = await Coupon.findOne({
-    code: couponCode,
-    status: "Active",
-    $or: [{ expiresAt: { $gt: new Date() } }, { expiresAt: null }],
-  });
-
-  if (!coupon) {
-    throw new CustomError(404, "Invalid or expired coupon");
-  }
-
-  // Check is coupon is already used to its limit
-  const usedCount = coupon.usedCount ?? 0;
-  const totalUsageLimit = coupon.totalUsageLimit ?? 0;
-  if (usedCount >= totalUsageLimit) {
-    throw new CustomError(
-      400,
-      `Coupon "${coupon.code}" has reached its usage limit`
-    );
-  }
-  // Validate discount vs minimum order amount
-  validateDiscountVsMinOrder(coupon);
-
-  // Check usage limits
-  const userUsage = coupon.userUsage?.find(
-    (u: any) => u.userId.toString() === userId
+// Helper to release the coupons held by an unpaid order (call this when its
+// checkout expires or the order is cancelled)
+export const releaseCouponReservations = async (
+  orderId: Types.ObjectId
+): Promise<void> => {
+  await Coupon.updateMany(
+    { "reservations.orderId": orderId },
+    { $pull: { reservations: { orderId } } }
   );
-  const usageLimitPerUser = coupon.usageLimitPerUser ?? 0;
-  if (userUsage && userUsage.usageCount >= usageLimitPerUser) {
-    throw new CustomError(
-      400,
-      `You've reached the usage limit for coupon "${coupon.code}"`
-    );
-  }
-
-  if (usedCount >= usageLimitPerUser) {
-    throw new CustomError(
-      400,
-      `Coupon "${coupon.code}" has reached its total usage limit`
-    );
-  }
-
-  const {
-    discount,
-    discountedTotal,
-    appliedTo: discountedProducts = [],
-  } = calculateDiscount(coupon, {
-    products: cart.products,
-    totalPrice: cart.totalPrice,
-    totalQuantity: cart.totalQuantity,
-  });
-
-  discountUSD = discount;
-  finalPriceUSD = discountedTotal;
-  appliedTo = discountedProducts;
-
-  let message = "Coupon applied successfully";
-  if (coupon.couponApplicableOn === "specificProducts") {
-    if (appliedTo.length === 1) {
-      const product = cart.products.find((p: any) =>
-        p.product._id.equals(appliedTo[0])
-      );
-      message = `Discount applied to "${
-        product?.product?.name || "your item"
-      }"`;
-    } else if (appliedTo.length > 1) {
-      message = `Discount applied to ${appliedTo.length} products`;
-    }
-  } else if (coupon.couponApplicableOn === "productCategories") {
-    message = `Discount applied to products in selected categories`;
-  } else if (
-    coupon.discountType === "percentage" &&
-    coupon.discountValue === 100
-  ) {
-    const product = cart.products.find((p: any) =>
-      p.product._id.equals(appliedTo[0])
-    );
-    message = `100% discount applied to "${
-      product?.product?.name || "your item"
-    }"${coupon.maxWordCount ? ` (max ${coupon.maxWordCount} words)` : ""}`;
-  }
-  return { coupon, discountUSD, finalPriceUSD, appliedTo, message };
 };
 
-// Helper to actually apply coupon usage (call this after successful payment)
+// Helper to actually apply coupon usage (call this after successful payment).
+// The order's reservation, if it still has one, becomes the recorded use.
 export const recordCouponUsage = async (
   couponId: Types.ObjectId,
-  userId: string
+  userId: string,
+  orderId?: Types.ObjectId
 ): Promise<void> => {
-  const coupon = await Coupon.findById(couponId);
-  if (!coupon) {
-    throw new CustomError(404, "Coupon not found");
-  }
+  const userObjectId = new Types.ObjectId(userId);
+  const now = new Date();
+  const releaseReservation = orderId && {
+    $pull: { reservations: { orderId } },
+  };
 
   // Update coupon usage
-  const userUsage = coupon.userUsage?.find(
-    (u: any) => u.userId.toString() === userId
+  const counted = await Coupon.updateOne(
+    { _id: couponId, "userUsage.userId": userObjectId },
+    {
+      $inc: { usedCount: 1, "userUsage.$.usageCount": 1 },
+      $set: { "userUsage.$.lastUsedAt": now },
+      ...releaseReservation,
+    }
+  );
+  if (counted.matchedCount > 0) return;
+
+  const added = await Coupon.updateOne(
+    { _id: couponId, "userUsage.userId": { $ne: userObjectId } },
+    {
+      $inc: { usedCount: 1 },
+      $push: {
+        userUsage: { userId: userObjectId, usageCount: 1, lastUsedAt: now },
+      },
+      ...releaseReservation,
+    }
   );
+  if (added.matchedCount > 0) return;
 
-  if (userUsage) {
-    userUsage.usageCount += 1;
-  } else {
-    coupon.userUsage = coupon.userUsage || [];
-    coupon.userUsage.push({
-      userId: new Types.ObjectId(userId),
-      usageCount: 1,
-    });
+  // The user's first use was added concurrently
+  if (!(await Coupon.exists({ _id: couponId }))) {
+    throw new CustomError(404, "Coupon not found");
   }
-  let usedCount = coupon.usedCount ?? 0;
-  usedCount += 1;
-  await coupon.save();
+  await recordCouponUsage(couponId, userId, orderId);
+};
+
+// Helper to roll back a recorded coupon usage (call this after a full refund)
+export const releaseCouponUsage = async (
+  couponId: Types.ObjectId,
+  userId: string
+): Promise<void> => {
+  await Promise.all([
+    Coupon.updateOne(
+      { _id: couponId, usedCount: { $gt: 0 } },
+      { $inc: { usedCount: -1 } }
+    ),
+    Coupon.updateOne(
+      {
+        _id: couponId,
+        userUsage: {
+          $elemMatch: {
+            userId: new Types.ObjectId(userId),
+            usageCount: { $gt: 0 },
+          },
+        },
+      },
+      { $inc: { "userUsage.$.usageCount": -1 } }
+    ),
+  ]);
 };
 
 // *********************************************************
@@ -341,92 +235,70 @@ export const calculateCouponDiscount = async (
   next: NextFunction
 ) => {
   try {
-    const { code, localCart } = req.body;
+    const { userId } = req;
+    const { code, codes, localCart } = req.body;
 
     if (!localCart || !localCart.products || localCart.products.length === 0) {
       return next(new CustomError(400, "Cart cannot be empty"));
     }
 
+    // Line prices come from the pricing service, not the client
     const cartData = localCart;
+    cartData.totalPrice = await priceLines(cartData.products);
+
+    // Category promotions need each product's category
+    const categories = new Map(
+      (
+        await Product.find({
+          _id: { $in: cartData.products.map((p: any) => p.product._id) },
+        })
+          .select("category")
+          .lean()
+      ).map((product) => [product._id.toString(), product.category])
+    );
+    const lines = cartData.products.map((p: any) => ({
+      ...p,
+      product: {
+        ...p.product,
+        category: categories.get(String(p.product._id)),
+      },
+    }));
 
-    if (!code) {
-      return res.status(200).json({
-        message: "No coupon applied",
-        originalTotal: cartData.totalPrice,
-        couponDiscount: 0,
-        finalPrice: cartData.totalPrice,
-        appliedTo: [],
-        productDiscounts: {},
-        couponDetails: null,
-      });
-    }
-
-    const coupon = await Coupon.findOne({
-      code: code,
-      status: "Active",
-      $or: [{ expiresAt: { $gt: new Date() } }, { expiresAt: null }],
+    // Automatic promotions apply even when no code is entered
+    const result = await evaluatePromotions(lines, {
+      codes: Array.isArray(codes) ? codes : code ? [code] : [],
+      userId,
     });
 
-    if (!coupon) {
-      return next(new CustomError(404, "Invalid or expired coupon"));
-    }
-
-    // Check is coupon is already used to its limit
-    const usedCount = coupon.usedCount ?? 0;
-    const totalUsageLimit = coupon.totalUsageLimit ?? 0;
-
-    if (usedCount >= totalUsageLimit) {
-      return next(
-        new CustomError(
-          400,
-          `Coupon "${coupon.code}" has reached its usage limit`
-        )
-      );
-    }
-
-    // Validate discount vs minimum order amount
-    validateDiscountVsMinOrder(coupon);
-
-    const {
-      discount,
-      discountedTotal,
-      appliedTo = [],
-    } = calculateDiscount(coupon, cartData);
-
-    // Build product discounts map with proportional distribution
     const productDiscounts: Record<string, number> = {};
-    const eligibleProducts = cartData.products.filter((p: any) =>
-      appliedTo.some((id: any) => id.toString() === p.product._id.toString())
-    );
-    const eligibleTotal = eligibleProducts.reduce(
-      (sum: number, p: any) => sum + p.totalPrice,
-      0
-    );
-
-    // Always distribute the final (capped) discount proportionally
-    const finalDiscount = Math.min(
-      discount,
-      coupon.maxDiscountAmount || Infinity
-    );
-    if (eligibleTotal === 0) {
-      throw new CustomError(400, "No eligible products with valid prices");
-    }
-    eligibleProducts.forEach((product: any) => {
-      const productShare = product.totalPrice / eligibleTotal;
-      productDiscounts[product.product._id.toString()] = Number(
-        (finalDiscount * productShare).toFixed(2)
-      );
+    result.lines.forEach((line) => {
+      if (line.discount > 0) {
+        const productId = line.product.toString();
+        productDiscounts[productId] = Number(
+          ((productDiscounts[productId] ?? 0) + line.discount).toFixed(2)
+        );
+      }
     });
 
+    const enteredPromotion = result.promotions.find((p) => !p.automatic);
+    const coupon = enteredPromotion
+      ? await Coupon.findById(enteredPromotion.coupon)
+      : null;
+
     res.status(200).json({
       success: true,
-      message: "Coupon discount calculated successfully",
-      originalTotal: cartData.totalPrice,
-      couponDiscount: finalDiscount,
-      finalPrice: discountedTotal,
-      appliedTo: appliedTo.map((id: any) => id.toString()),
+      message:
+        result.promotions.length > 0
+          ? "Coupon discount calculated successfully"
+          : "No coupon applied",
+      originalTotal: result.subtotal,
+      couponDiscount: result.discount,
+      finalPrice: result.total,
+      appliedTo: Object.keys(productDiscounts),
       productDiscounts,
-      couponDetails: {
+      promotions: result.promotions,
+      lines: result.lines,
+      couponDetails: coupon && {
         code: coupon.code,
         couponApplicableOn: coupon.couponApplicableOn,
         couponType: coupon.couponType,
@@ -440,6 +312,15 @@ export const calculateCouponDiscount = async (
           coupon.minOrderAmount !== 1 ? coupon.minOrderAmount : null,
         minQuantity: coupon.minQuantity !== 1 ? coupon.minQuantity : null,
         maxWordCount: coupon.maxWordCount,
+        buyQuantity: coupon.buyQuantity,
+        getQuantity: coupon.getQuantity,
+        getDiscountPercent: coupon.getDiscountPercent,
+        spendTiers: coupon.spendTiers,
+        firstOrderOnly: coupon.firstOrderOnly,
+        stacking: coupon.stacking,
+        startsAt: coupon.startsAt,
+        endsAt: coupon.endsAt,
+        customerType: coupon.customerType,
         specificProducts:
           coupon.couponApplicableOn === "specificProducts"
             ? await Product.find({
@@ -454,12 +335,9 @@ export const calculateCouponDiscount = async (
             : [],
       },
     });
-  } catch (error) {
+  } catch (error: any) {
     next(
-      new CustomError(
-        500,
-        error instanceof Error ? error.message : "An error occurred"
-      )
+      error instanceof CustomError ? error : new CustomError(500, error.message)
     );
   }
 };
@@ -534,7 +412,7 @@ export const getCoupons = async (
 ) => {
   try {
     const { userId, query } = req;
-    const { id, status, search } = query;
+    const { id, status, search, campaignId } = query;
 
     // Check Permission
     const permissionCheck = await checkPermission(userId, "coupons", 1);
@@ -558,10 +436,14 @@ export const getCoupons = async (
     }
 
     // Otherwise, return all coupons with optional filters
-    const queryParams: Record<string, any> = {};
+    // Campaign codes are only listed for their campaign
+    const queryParams: Record<string, any> = {
+      campaignId: campaignId || null,
+    };
 
     if (status !== undefined) {
-      queryParams.status = status === "Active";
+      // Active, Inactive or Expired
+      queryParams.status = status;
     }
 
     if (search) {
@@ -637,7 +519,9 @@ export const getCouponStats = async (
       throw new CustomError(403, "Permission denied");
     }
 
+    // Campaign codes are counted per campaign rather than one by one
     const stats = await Coupon.aggregate([
+      { $match: { campaignId: null } },
       {
         $group: {
           _id: null,
@@ -659,7 +543,7 @@ export const getCouponStats = async (
       },
     ]);
 
-    const popularCoupons = await Coupon.find()
+    const popularCoupons = await Coupon.find({ campaignId: null })
       .sort({ usedCount: -1 })
       .limit(5)
       .select("code usedCount");
@@ -670,6 +554,7 @@ export const getCouponStats = async (
         success: true,
         stats: stats[0] || {},
         popularCoupons,
+        campaigns: await getCampaignStats(),
       },
     });
   } catch (error: any) {
@@ -1,8 +1,29 @@
 import FieldModel from "../models/field.model";
-import FormModel from "../models/form.model"; // Imported to update forms when deleting fields
+import FormModel from "../models/form.model"; // Imported to check and republish forms using a field
 import { NextFunction, Request, Response } from "express";
 import { CustomError } from "../middlewares/error";
 import { checkPermission } from "../helpers/authHelper";
+import { FIELD_INPUT_TYPES } from "../types/productTypes";
+import {
+  publishFormVersion,
+  resolveInputType,
+} from "../services/product-form.service";
+
+// Helper to check a field's type and the settings that type depends on
+const validateFieldDefinition = (inputType: string, multipleOptions?: any[]) => {
+  if (!(FIELD_INPUT_TYPES as readonly string[]).includes(inputType)) {
+    throw new CustomError(
+      400,
+      `Invalid input type. Use one of: ${FIELD_INPUT_TYPES.join(", ")}`
+    );
+  }
+  if (
+    (inputType === "select" || inputType === "multi-select") &&
+    (!multipleOptions || multipleOptions.length === 0)
+  ) {
+    throw new CustomError(400, "Select fields need at least one option");
+  }
+};
 
 // ***************************************
 // ********** Create Field ***************
@@ -20,6 +41,8 @@ export const createField = async (
       inputType,
       inputMinLength,
       inputMaxLength,
+      inputMin,
+      inputMax,
       inputPlaceholder,
       inputValidationPattern,
       inputRequired,
@@ -37,6 +60,7 @@ export const createField = async (
     if (!name || !label || !inputType) {
       throw new CustomError(400, "Name, Label, and Input Type are required");
     }
+    validateFieldDefinition(inputType, multipleOptions);
 
     const field = await FieldModel.create({
       name,
@@ -44,6 +68,8 @@ export const createField = async (
       inputType,
       inputMinLength: inputMinLength || null,
       inputMaxLength: inputMaxLength || null,
+      inputMin: inputMin ?? null,
+      inputMax: inputMax ?? null,
       inputPlaceholder: inputPlaceholder || null,
       inputValidationPattern: inputValidationPattern || null,
       inputRequired: inputRequired || false,
@@ -57,7 +83,11 @@ export const createField = async (
       field,
     });
   } catch (error: any) {
-    next(new CustomError(500, error.message || "Error creating field"));
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, error.message || "Error creating field")
+    );
   }
 };
 
@@ -70,7 +100,9 @@ export const readFields = async (
   next: NextFunction
 ) => {
   try {
-    const fields = await FieldModel.find().sort({ createdAt: -1 }).lean();
+    const fields = await FieldModel.find({ deletedAt: null })
+      .sort({ createdAt: -1 })
+      .lean();
     res.json({
       success: true,
       message: "Fields retrieved successfully",
@@ -98,6 +130,8 @@ export const updateField = async (
       inputType,
       inputMinLength,
       inputMaxLength,
+      inputMin,
+      inputMax,
       inputPlaceholder,
       inputValidationPattern,
       inputRequired,
@@ -115,14 +149,27 @@ export const updateField = async (
       throw new CustomError(400, "Missing required parameter: fieldId");
     }
 
-    const updatedField = await FieldModel.findByIdAndUpdate(
-      fieldId,
+    const field = await FieldModel.findOne({ _id: fieldId, deletedAt: null })
+      .select("inputType")
+      .lean();
+    if (!field) {
+      throw new CustomError(404, "Field not found");
+    }
+
+    // Keep the stored type when none is sent, mapping legacy values
+    const resolvedInputType = inputType ?? resolveInputType(field.inputType);
+    validateFieldDefinition(resolvedInputType, multipleOptions);
+
+    const updatedField = await FieldModel.findOneAndUpdate(
+      { _id: fieldId, deletedAt: null },
       {
         name,
         label,
-        inputType,
+        inputType: resolvedInputType,
         inputMinLength: inputMinLength || null,
         inputMaxLength: inputMaxLength || null,
+        inputMin: inputMin ?? null,
+        inputMax: inputMax ?? null,
         inputPlaceholder: inputPlaceholder || null,
         inputValidationPattern: inputValidationPattern || null,
         inputRequired: inputRequired || false,
@@ -135,6 +182,14 @@ export const updateField = async (
       throw new CustomError(404, "Field not found");
     }
 
+    // Forms using the field get a new version; pinned products keep theirs
+    const forms = await FormModel.find({ "fields.field": fieldId })
+      .select("_id")
+      .lean();
+    for (const form of forms) {
+      await publishFormVersion(form._id, userId);
+    }
+
     res.status(200).json({
       success: true,
       message: "Field updated successfully",
@@ -171,22 +226,35 @@ export const deleteField = async (
       throw new CustomError(400, "Missing required parameter: fieldId");
     }
 
-    const field = await FieldModel.findByIdAndDelete(fieldId);
-    if (!field) {
-      throw new CustomError(404, "Field not found");
+    // A field still on a form must be removed from it first
+    const forms = await FormModel.find({ "fields.field": fieldId })
+      .select("title")
+      .lean();
+    if (forms.length > 0) {
+      throw new CustomError(
+        409,
+        `Field is used by: ${forms.map((form) => form.title).join(", ")}`
+      );
     }
 
-    // Remove field references from all forms
-    await FormModel.updateMany(
-      { "fields.field": fieldId },
-      { $pull: { fields: { field: fieldId } } }
+    // Soft delete, as published form versions still refer to the field
+    const field = await FieldModel.findOneAndUpdate(
+      { _id: fieldId, deletedAt: null },
+      { deletedAt: new Date() }
     );
+    if (!field) {
+      throw new CustomError(404, "Field not found");
+    }
 
     res.status(200).json({
       success: true,
       message: "Field deleted successfully",
     });
   } catch (error) {
-    next(new CustomError(500, "Error deleting field"));
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error deleting field")
+    );
   }
 };
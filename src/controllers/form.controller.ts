@@ -1,7 +1,115 @@
 import FormModel from "../models/form.model";
+import FormVersion from "../models/form-version.model";
+import FieldModel from "../models/field.model";
+import Product from "../models/product.model";
 import { NextFunction, Request, Response } from "express";
 import { CustomError } from "../middlewares/error";
 import { checkPermission } from "../helpers/authHelper";
+import {
+  publishFormVersion,
+  resolveProductForm,
+} from "../services/product-form.service";
+import { FormField, FormSection } from "../types/productTypes";
+
+const CONDITION_OPERATORS = [
+  "equals",
+  "notEquals",
+  "in",
+  "notIn",
+  "isEmpty",
+  "isNotEmpty",
+];
+
+// Helper to order fields and sections and check that section keys and
+// visibility rules only refer to parts of the same form
+const normalizeFormLayout = (
+  fields: any[] = [],
+  sections: any[] = []
+): { fields: FormField[]; sections: FormSection[] } => {
+  const normalizedSections = sections.map((section: any, index: number) => ({
+    key: section.key,
+    title: section.title,
+    description: section.description || null,
+    sectionOrder: section.sectionOrder || index + 1,
+  }));
+
+  const sectionKeys = new Set<string>();
+  for (const section of normalizedSections) {
+    if (!section.key || !section.title) {
+      throw new CustomError(400, "Each section needs a key and a title");
+    }
+    if (sectionKeys.has(section.key)) {
+      throw new CustomError(400, `Duplicate section key: ${section.key}`);
+    }
+    sectionKeys.add(section.key);
+  }
+
+  const fieldIds = new Set(
+    fields.map((field: any) => field.field?.toString())
+  );
+
+  const normalizedFields = fields.map((field: any, index: number) => {
+    const fieldId = field.field?.toString();
+    if (field.section && !sectionKeys.has(field.section)) {
+      throw new CustomError(400, `Unknown section: ${field.section}`);
+    }
+
+    const conditions = (field.conditions || []).map((condition: any) => {
+      const conditionFieldId = condition.field?.toString();
+      if (!conditionFieldId || !fieldIds.has(conditionFieldId)) {
+        throw new CustomError(
+          400,
+          "Visibility rules can only refer to fields in the same form"
+        );
+      }
+      if (conditionFieldId === fieldId) {
+        throw new CustomError(400, "A field cannot depend on itself");
+      }
+      if (!CONDITION_OPERATORS.includes(condition.operator)) {
+        throw new CustomError(
+          400,
+          `Invalid condition operator: ${condition.operator}`
+        );
+      }
+      const needsValue = !["isEmpty", "isNotEmpty"].includes(
+        condition.operator
+      );
+      if (needsValue && (condition.value === undefined || condition.value === null)) {
+        throw new CustomError(
+          400,
+          `The ${condition.operator} condition needs a value`
+        );
+      }
+      return {
+        field: condition.field,
+        operator: condition.operator,
+        value: needsValue ? condition.value : null,
+      };
+    });
+
+    return {
+      field: field.field,
+      fieldOrder: field.fieldOrder || index + 1,
+      section: field.section || null,
+      conditions,
+      conditionLogic: field.conditionLogic === "any" ? "any" : "all",
+    } as FormField;
+  });
+
+  return { fields: normalizedFields, sections: normalizedSections };
+};
+
+// Helper to ensure every field in a layout exists and has not been deleted
+const assertFieldsAvailable = async (fields: FormField[]) => {
+  const fieldIds = [...new Set(fields.map((field) => field.field.toString()))];
+  const available = await FieldModel.countDocuments({
+    _id: { $in: fieldIds },
+    deletedAt: null,
+  });
+  if (available !== fieldIds.length) {
+    throw new CustomError(400, "One or more fields do not exist");
+  }
+};
 
 // ***************************************
 // ********** Create New Form ************
@@ -13,7 +121,7 @@ export const createForm = async (
 ) => {
   try {
     const { body, userId } = req;
-    let { title, fields } = body;
+    const { title } = body;
 
     // Check permissions
     const permissionCheck = await checkPermission(userId, "custom-forms", 0);
@@ -21,17 +129,20 @@ export const createForm = async (
       throw new CustomError(403, "Unauthorized");
     }
 
-    // Validate and assign field order
-    fields = fields.map((field: any, index: number) => ({
-      field: field.field,
-      fieldOrder: field.fieldOrder || index + 1,
-    }));
+    // Validate and assign field and section order
+    const { fields, sections } = normalizeFormLayout(
+      body.fields,
+      body.sections
+    );
+    await assertFieldsAvailable(fields);
 
     const form = await FormModel.create({
       title,
+      sections,
       fields,
       createdBy: userId,
     });
+    await publishFormVersion(form._id, userId);
 
     const populatedForm = await FormModel.findById(form._id)
       .populate("createdBy updatedBy", "name email role isAdmin")
@@ -42,10 +153,12 @@ export const createForm = async (
       message: "Form created successfully",
       form: populatedForm,
     });
-  } catch (error: any) {
-    if (error instanceof CustomError) {
-      next(new CustomError(500, "Error creating form"));
-    }
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error creating form")
+    );
   }
 };
 
@@ -127,21 +240,43 @@ export const updateForm = async (
       );
     }
 
-    // Update field orders if provided
-    if (body.fields) {
-      body.fields = body.fields.map((field: any, index: number) => ({
-        field: field.field,
-        fieldOrder: field.fieldOrder || index + 1,
-      }));
+    // Re-check the layout when fields or sections change, keeping
+    // whichever part was not sent
+    if (body.fields || body.sections) {
+      const existingForm = await FormModel.findById(formId).lean();
+      if (!existingForm) {
+        return next(new CustomError(404, "Form not found"));
+      }
+      const layout = normalizeFormLayout(
+        body.fields ?? existingForm.fields,
+        body.sections ?? existingForm.sections
+      );
+      await assertFieldsAvailable(layout.fields);
+      body.fields = layout.fields;
+      body.sections = layout.sections;
     }
 
-    const updatedForm = await FormModel.findByIdAndUpdate(formId, body, {
+    // Only the editable parts are taken from the body; currentVersion is
+    // managed by publishing
+    const { title, sections, fields, status } = body;
+    const update: Record<string, any> = { updatedBy: userId };
+    if (title !== undefined) update.title = title;
+    if (sections !== undefined) update.sections = sections;
+    if (fields !== undefined) update.fields = fields;
+    if (status !== undefined) update.status = status;
+
+    const updatedForm = await FormModel.findByIdAndUpdate(formId, update, {
       new: true,
     });
     if (!updatedForm) {
       return next(new CustomError(404, "Form not found"));
     }
 
+    // Content edits publish a new version; a status toggle does not
+    if (title !== undefined || sections !== undefined || fields !== undefined) {
+      await publishFormVersion(updatedForm._id, userId);
+    }
+
     const populatedForm = await FormModel.findById(updatedForm._id)
       .populate("createdBy updatedBy", "name email role isAdmin")
       .populate("fields.field");
@@ -208,3 +343,101 @@ export const deleteForm = async (
     next(new CustomError(500, "Error deleting form"));
   }
 };
+
+// ***************************************
+// ********** Read Form Versions *********
+// ***************************************
+export const readFormVersions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { formId, version } = req.query;
+
+    if (!formId) {
+      throw new CustomError(400, "Missing required query parameter: formId");
+    }
+
+    if (version) {
+      const formVersion = await FormVersion.findOne({
+        formId,
+        version: Number(version),
+      })
+        .populate("createdBy", "name email")
+        .lean();
+      if (!formVersion) {
+        throw new CustomError(404, "Form version not found");
+      }
+      return res.json({ success: true, formVersion });
+    }
+
+    const formVersions = await FormVersion.find({ formId })
+      .select("version title createdBy createdAt")
+      .populate("createdBy", "name email")
+      .sort({ version: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      message: "Form versions retrieved successfully",
+      formVersions,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error reading form versions")
+    );
+  }
+};
+
+// ***************************************
+// ********** Render Form ****************
+// ***************************************
+export const renderForm = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { productId } = req.query;
+    let { formId } = req.query as { formId?: string };
+    let version = req.query.version ? Number(req.query.version) : null;
+
+    if (!formId && !productId) {
+      throw new CustomError(
+        400,
+        "Missing required query parameter: productId or formId"
+      );
+    }
+
+    if (!formId) {
+      const product = await Product.findById(productId)
+        .select("formId formVersion")
+        .lean();
+      if (!product) {
+        throw new CustomError(404, "Product not found");
+      }
+      // Products without a form render an empty schema
+      if (!product.formId) {
+        return res.json({ success: true, form: null });
+      }
+      formId = product.formId.toString();
+      version = product.formVersion ?? null;
+    }
+
+    const form = await resolveProductForm(formId, version);
+    if (!form) {
+      throw new CustomError(404, "Form not found");
+    }
+
+    res.json({ success: true, form });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error rendering form")
+    );
+  }
+};
@@ -9,11 +9,9 @@ import {
   sendInvoiceGeneratedEmail,
 } from "../utils/mailer";
 import { formatDate } from "../utils/formatDate";
-
-// Helper to generate invoice number
-const generateInvoiceNumber = (orderNumber: string): string => {
-  return `INV-${orderNumber}`;
-};
+import { escapeHtml } from "../utils/escapeHtml";
+import { SELLER_DETAILS } from "../utils/globals";
+import { nextSequenceNumber } from "../services/sequence.service";
 
 // Helper to generate HTML content for the invoice PDF
 const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
@@ -25,11 +23,63 @@ const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
     Unpaid: "background-color: #eab308; color: #ffffff;",
     Overdue: "background-color: #ef4444; color: #ffffff;",
     Cancelled: "background-color: #6b7280; color: #ffffff;",
+    "Partially Credited": "background-color: #8b5cf6; color: #ffffff;",
+    Credited: "background-color: #8b5cf6; color: #ffffff;",
   };
   const statusColor =
     statusColorMap[String(invoice.status)] ||
     "background-color: #3b82f6; color: #ffffff;";
 
+  // Billing address lines for the customer, when a billing profile exists
+  const billingAddress = invoice.billingAddress
+    ? [
+        invoice.billingAddress.line1,
+        invoice.billingAddress.line2,
+        `${invoice.billingAddress.city}, ${invoice.billingAddress.state} ${invoice.billingAddress.postalCode}`,
+        invoice.billingAddress.country,
+      ]
+        .filter(Boolean)
+        .map((line: string) => `<p class="text-sm">${escapeHtml(line)}</p>`)
+        .join("")
+    : "";
+  const taxIdLabel = invoice.taxRegime === "GST" ? "GSTIN" : "Tax ID";
+
+  // Generate tax rows, e.g. "CGST (9%)"
+  const taxRows = (invoice.taxLines ?? [])
+    .map(
+      (line: any) => `<div>
+                <span>${line.type} (${line.rate}%):</span>
+                <span class="font-semibold">$${line.amount}</span>
+              </div>`
+    )
+    .join("");
+
+  // Form answers listed under each item, e.g. "Topic: Link building"
+  const formResponseLines = (item: any) =>
+    (item.formResponses ?? [])
+      .map(
+        (response: any) =>
+          `<p style="font-size: 12px; color: #6b7280; margin: 4px 0 0;">${escapeHtml(
+            response.label
+          )}: ${escapeHtml(
+            Array.isArray(response.value)
+              ? response.value.join(", ")
+              : response.value
+          )}</p>`
+      )
+      .join("");
+
+  // Add-ons listed under each item, e.g. "+ Express delivery: $15 each"
+  const addOnLines = (item: any) =>
+    (item.addOns ?? [])
+      .map(
+        (addOn: any) =>
+          `<p style="font-size: 12px; color: #374151; margin: 4px 0 0;">+ ${escapeHtml(
+            addOn.name
+          )}: $${addOn.amount} each</p>`
+      )
+      .join("");
+
   // Generate table rows for order items
   const tableRows = invoice.orderId.products
     .map(
@@ -42,9 +92,13 @@ const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
           <h6 style="font-size: 14px; font-weight: 500; margin: 0;">${
             item.product.name
           }</h6>
+          ${addOnLines(item)}
+          ${formResponseLines(item)}
         </td>
         <td style="padding: 8px 16px; border-bottom: 1px solid #e5e7eb; font-weight: 500;">
-          $${item.product.pricePerUnit} / ${item.product.minimumWords} words
+          $${item.unitPrice ?? item.product.pricePerUnit} / ${
+            item.wordCount > 0 ? "100 words" : "item"
+          }
         </td>
         <td style="padding: 8px 16px; border-bottom: 1px solid #e5e7eb;">${
           item.quantity
@@ -175,13 +229,31 @@ const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
             <div>
               <span class="badge">${invoice.status}</span>
               <h6 class="title">${invoice.invoiceNumber}</h6>
-              <p class="text-sm text-gray">Invoice Number</p>
+              <p class="text-sm text-gray">${
+                invoice.taxRegime && invoice.taxRegime !== "None"
+                  ? "Tax Invoice Number"
+                  : "Invoice Number"
+              }</p>
             </div>
           </div>
           <div class="grid">
             <div>
               <h6 class="text-sm font-semibold">From</h6>
-              <p class="text-sm font-semibold uppercase">Adaired Digital Media</p>
+              <p class="text-sm font-semibold uppercase">${escapeHtml(
+                SELLER_DETAILS.name
+              )}</p>
+              ${
+                SELLER_DETAILS.address
+                  ? `<p class="text-sm">${escapeHtml(SELLER_DETAILS.address)}</p>`
+                  : ""
+              }
+              ${
+                SELLER_DETAILS.taxId
+                  ? `<p class="text-sm">GSTIN: ${escapeHtml(
+                      SELLER_DETAILS.taxId
+                    )}</p>`
+                  : ""
+              }
               <div class="text-sm">
                 <p class="font-semibold">Creation Date</p>
                 <p>${formatDate(invoice.createdAt)}</p>
@@ -189,9 +261,24 @@ const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
             </div>
             <div>
               <h6 class="text-sm font-semibold">Bill To</h6>
-              <p class="text-sm font-semibold uppercase">${
+              <p class="text-sm font-semibold uppercase">${escapeHtml(
                 invoice.userId?.name || "N/A"
-              }</p>
+              )}</p>
+              ${billingAddress}
+              ${
+                invoice.customerTaxId
+                  ? `<p class="text-sm">${taxIdLabel}: ${escapeHtml(
+                      invoice.customerTaxId
+                    )}</p>`
+                  : ""
+              }
+              ${
+                invoice.taxRegime === "GST" && invoice.billingAddress
+                  ? `<p class="text-sm">Place of Supply: ${escapeHtml(
+                      invoice.billingAddress.state
+                    )}</p>`
+                  : ""
+              }
               <div class="text-sm">
                 <p class="font-semibold">Due Date</p>
                 <p>${formatDate(invoice.dueDate)}</p>
@@ -222,6 +309,11 @@ const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
             <div class="notes">
               <h6 class="text-sm font-semibold uppercase">Notes</h6>
               <p class="text-sm">We appreciate your business, and hope to be working with you again very soon!</p>
+              ${
+                invoice.reverseCharge
+                  ? `<p class="text-sm">Tax payable on reverse charge basis by the recipient.</p>`
+                  : ""
+              }
             </div>
             <div class="totals">
               <div>
@@ -232,10 +324,33 @@ const generateInvoiceHtml = (invoice: any, baseUrl: string): string => {
                 <span>Discount:</span>
                 <span class="font-semibold">$${invoice.discountAmount}</span>
               </div>
+              ${taxRows}
+              ${
+                invoice.creditedAmount > 0
+                  ? `<div>
+                <span>Credited:</span>
+                <span class="font-semibold">-$${invoice.creditedAmount}</span>
+              </div>`
+                  : ""
+              }
               <div class="total">
                 <span>Total:</span>
                 <span>$${invoice.finalAmount}</span>
               </div>
+              ${
+                invoice.storeCreditAmount > 0
+                  ? `<div>
+                <span>Paid with store credit:</span>
+                <span class="font-semibold">-$${invoice.storeCreditAmount}</span>
+              </div>
+              <div>
+                <span>Paid via ${invoice.paymentMethod}:</span>
+                <span class="font-semibold">$${Number(
+                  (invoice.finalAmount - invoice.storeCreditAmount).toFixed(2)
+                )}</span>
+              </div>`
+                  : ""
+              }
             </div>
           </div>
           <div class="text-center text-sm" style="margin-top: 24px;">
@@ -265,10 +380,7 @@ export const createInvoice = async (
   if (existingInvoice) {
     throw new CustomError(400, "Invoice already exists for this order.");
   }
-  if (!order.orderNumber) {
-    throw new CustomError(500, "Order number is missing");
-  }
-  const invoiceNumber = generateInvoiceNumber(order.orderNumber);
+  const invoiceNumber = await nextSequenceNumber("invoice");
   const dueDate = new Date();
   dueDate.setDate(dueDate.getDate() + 7); // Due in 7 days
 
@@ -278,11 +390,20 @@ export const createInvoice = async (
     userId: order.userId,
     totalAmount: order.totalPrice,
     discountAmount: order.couponDiscount,
+    taxRegime: order.taxRegime,
+    taxLines: order.taxLines,
+    taxAmount: order.taxAmount,
+    reverseCharge: order.reverseCharge,
+    billingAddress: order.billingAddress,
+    customerTaxId: order.customerTaxId,
     finalAmount: order.finalPrice,
+    storeCreditAmount: order.storeCreditApplied ?? 0,
     status: order.paymentStatus === "Paid" ? "Paid" : "Unpaid",
     dueDate,
     paymentMethod,
     paymentId: order.paymentId,
+    currency: order.currency,
+    exchangeRate: order.exchangeRate,
     zohoInvoiceId: order.zohoInvoiceId,
   };
 
@@ -316,12 +437,42 @@ export const updateInvoicePaymentStatus = async (
         : paymentStatus === "Failed"
         ? "Failed"
         : paymentStatus === "Refunded"
-        ? "Refunded"
+        ? "Credited"
+        : paymentStatus === "Partially Refunded"
+        ? "Partially Credited"
         : "Unpaid";
+    // An unpaid invoice past its due date stays overdue
+    if (newStatus === "Unpaid" && invoice.status === "Overdue") return;
     await Invoice.findByIdAndUpdate(invoice._id, { status: newStatus });
   }
 };
 
+// Helper to cancel the open invoice of a cancelled order, so it is no
+// longer marked overdue or reminded about
+export const cancelOrderInvoice = async (orderId: string): Promise<void> => {
+  await Invoice.updateOne(
+    { orderId, status: { $in: ["Unpaid", "Overdue", "Failed"] } },
+    { status: "Cancelled" }
+  );
+};
+
+// *********************************************************
+// ************ Record a refund credit on invoice **********
+// *********************************************************
+export const creditInvoice = async (
+  orderId: string,
+  credit: { refundId: string; amount: number; reason?: string }
+): Promise<void> => {
+  // Skip credits that were already recorded for this refund
+  await Invoice.findOneAndUpdate(
+    { orderId, "credits.refundId": { $ne: credit.refundId } },
+    {
+      $push: { credits: { ...credit, issuedDate: new Date() } },
+      $inc: { creditedAmount: credit.amount },
+    }
+  );
+};
+
 // *********************************************************
 // ************** Delete invoice by orderId ****************
 // *********************************************************
@@ -0,0 +1,375 @@
+import { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import Order from "../models/orderModel";
+import { CustomError } from "../middlewares/error";
+import { checkPermission, getUserRoleType } from "../helpers/authHelper";
+import { ORDER_STATUS_TRANSITIONS } from "../helpers/orderStatusHelper";
+import { uploadOrderDeliverables } from "../utils/cloudinary";
+import {
+  sendDeliverableUpdateEmail,
+  sendOrderStatusUpdateEmail,
+} from "../utils/mailer";
+
+// Helper to load an order and one of its line items
+const findOrderItem = async (orderId: unknown, itemId: unknown) => {
+  if (!orderId || !itemId) {
+    throw new CustomError(400, "orderId and itemId are required");
+  }
+
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new CustomError(404, "Order not found");
+  }
+
+  const item = order.products.find(
+    (p) => p._id && p._id.toString() === itemId.toString()
+  );
+  if (!item) {
+    throw new CustomError(404, "Order item not found");
+  }
+
+  if (!item.fulfilment) {
+    item.fulfilment = {
+      status: "Unassigned",
+      revisionCount: 0,
+      deliveries: [],
+      revisions: [],
+    };
+  }
+
+  return { order, item, fulfilment: item.fulfilment };
+};
+
+// Helper to ensure the order can still be worked on
+const assertOrderFulfillable = (order: {
+  status: string;
+  paymentStatus: string;
+}) => {
+  if (order.paymentStatus !== "Paid") {
+    throw new CustomError(400, "Only paid orders can be fulfilled");
+  }
+  if (order.status === "Cancelled" || order.status === "Completed") {
+    throw new CustomError(400, `Order is already ${order.status}`);
+  }
+};
+
+// *********************************************************
+// ************ Get Order Deliverables *********************
+// *********************************************************
+export const getOrderDeliverables = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId } = req.query;
+
+    // Without an orderId, return the caller's assigned work queue
+    if (!orderId) {
+      const orders = await Order.find({
+        "products.fulfilment.assignee": userId,
+        status: { $nin: ["Cancelled", "Completed"] },
+      })
+        .select("orderNumber status paymentStatus products createdAt")
+        .populate("products.product", "name pricingType")
+        .sort({ createdAt: -1 })
+        .lean();
+
+      const items = orders.flatMap((order) =>
+        order.products
+          .filter((p) => p.fulfilment?.assignee?.toString() === userId)
+          .map((p) => ({
+            orderId: order._id,
+            orderNumber: order.orderNumber,
+            orderStatus: order.status,
+            item: p,
+          }))
+      );
+
+      return res.status(200).json({ data: items, count: items.length });
+    }
+
+    const order = await Order.findById(orderId)
+      .select("orderNumber userId status paymentStatus products")
+      .populate("products.product", "name pricingType featuredImage")
+      .populate("products.fulfilment.assignee", "name email image")
+      .populate("products.fulfilment.deliveries.deliveredBy", "name image")
+      .lean();
+    if (!order) {
+      throw new CustomError(404, "Order not found");
+    }
+
+    // Staff without order access only see the lines assigned to them
+    if (order.userId.toString() !== userId) {
+      const permissionCheck = await checkPermission(userId, "orders", 2).catch(
+        () => false
+      );
+      if (!permissionCheck) {
+        const assignedItems = order.products.filter(
+          (p) => p.fulfilment?.assignee?._id.toString() === userId
+        );
+        if (assignedItems.length === 0) {
+          throw new CustomError(403, "Permission denied");
+        }
+        order.products = assignedItems;
+      }
+    }
+
+    res.status(200).json({ data: order });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error fetching order deliverables")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Assign an Order Item (Admin) ***************
+// *********************************************************
+export const assignOrderDeliverable = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId, itemId } = req.query;
+    const { assignee, dueDate } = req.body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "orders", 3);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    const { order, fulfilment } = await findOrderItem(orderId, itemId);
+    assertOrderFulfillable(order);
+
+    if (fulfilment.status === "Approved") {
+      throw new CustomError(400, "This item has already been approved");
+    }
+
+    if (assignee !== undefined) {
+      if (!Types.ObjectId.isValid(assignee)) {
+        throw new CustomError(400, "Invalid assignee");
+      }
+      if ((await getUserRoleType(assignee)) === "customer") {
+        throw new CustomError(400, "Work can only be assigned to support users");
+      }
+      fulfilment.assignee = new Types.ObjectId(assignee);
+      if (fulfilment.status === "Unassigned") {
+        fulfilment.status = "Assigned";
+      }
+    }
+
+    if (dueDate !== undefined) {
+      const parsedDueDate = dueDate ? new Date(dueDate) : null;
+      if (parsedDueDate && isNaN(parsedDueDate.getTime())) {
+        throw new CustomError(400, "Invalid due date");
+      }
+      fulfilment.dueDate = parsedDueDate;
+    }
+
+    await order.save();
+
+    res.status(200).json({
+      message: "Order item assigned successfully",
+      data: order,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error assigning order item")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Upload Work for an Order Item **************
+// *********************************************************
+export const uploadOrderDeliverable = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId, itemId } = req.query;
+    const { note } = req.body;
+    const files = req.files as Express.Multer.File[] | undefined;
+
+    if (!files || files.length === 0) {
+      throw new CustomError(400, "At least one file is required");
+    }
+
+    const { order, item, fulfilment } = await findOrderItem(orderId, itemId);
+
+    const isAssignee = fulfilment.assignee?.toString() === userId;
+    if (!isAssignee) {
+      const permissionCheck = await checkPermission(userId, "orders", 3).catch(
+        () => false
+      );
+      if (!permissionCheck) {
+        throw new CustomError(403, "Only the assigned writer can deliver this item");
+      }
+    }
+
+    assertOrderFulfillable(order);
+    if (fulfilment.status === "Approved") {
+      throw new CustomError(400, "This item has already been approved");
+    }
+
+    const uploadedFiles = await uploadOrderDeliverables(files);
+
+    fulfilment.deliveries.push({
+      files: uploadedFiles,
+      note,
+      deliveredBy: new Types.ObjectId(userId),
+      deliveredAt: new Date(),
+    });
+    fulfilment.status = "Delivered";
+
+    await order.save();
+
+    sendDeliverableUpdateEmail(
+      order._id.toString(),
+      item._id!.toString(),
+      "delivered"
+    ).catch((err) => console.error("Email sending failed:", err));
+
+    res.status(201).json({
+      message: "Work delivered successfully",
+      data: item,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error uploading deliverable")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Approve an Order Item (Customer) ***********
+// *********************************************************
+export const approveOrderDeliverable = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId, itemId } = req.query;
+
+    const { order, item, fulfilment } = await findOrderItem(orderId, itemId);
+
+    if (order.userId.toString() !== userId) {
+      throw new CustomError(403, "Only the customer can approve this item");
+    }
+    if (fulfilment.status !== "Delivered") {
+      throw new CustomError(400, "Only delivered work can be approved");
+    }
+
+    fulfilment.status = "Approved";
+    fulfilment.approvedAt = new Date();
+
+    // Complete the order once every line has been approved
+    const allApproved = order.products.every(
+      (p) => p.fulfilment?.status === "Approved"
+    );
+    const completed =
+      allApproved &&
+      order.paymentStatus === "Paid" &&
+      ORDER_STATUS_TRANSITIONS[order.status].includes("Completed");
+    if (completed) {
+      order.statusHistory.push({
+        from: order.status,
+        to: "Completed",
+        changedBy: new Types.ObjectId(userId),
+        note: "All deliverables approved by customer",
+        changedAt: new Date(),
+      });
+      order.status = "Completed";
+    }
+
+    await order.save();
+
+    if (completed) {
+      sendOrderStatusUpdateEmail(order._id.toString()).catch((err) =>
+        console.error("Email sending failed:", err)
+      );
+    }
+
+    res.status(200).json({
+      message: "Work approved successfully",
+      data: item,
+      orderStatus: order.status,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error approving deliverable")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Request a Revision (Customer) **************
+// *********************************************************
+export const requestOrderDeliverableRevision = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId, itemId } = req.query;
+    const { note } = req.body;
+
+    if (!note || !note.trim()) {
+      throw new CustomError(400, "Please describe the changes you need");
+    }
+
+    const { order, item, fulfilment } = await findOrderItem(orderId, itemId);
+
+    if (order.userId.toString() !== userId) {
+      throw new CustomError(403, "Only the customer can request a revision");
+    }
+    if (fulfilment.status !== "Delivered") {
+      throw new CustomError(400, "Revisions can only be requested on delivered work");
+    }
+
+    fulfilment.revisions.push({
+      note: note.trim(),
+      requestedBy: new Types.ObjectId(userId),
+      requestedAt: new Date(),
+    });
+    fulfilment.revisionCount += 1;
+    fulfilment.status = "Revision Requested";
+
+    await order.save();
+
+    sendDeliverableUpdateEmail(
+      order._id.toString(),
+      item._id!.toString(),
+      "revision"
+    ).catch((err) => console.error("Email sending failed:", err));
+
+    res.status(200).json({
+      message: "Revision requested successfully",
+      data: item,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error requesting revision")
+    );
+  }
+};
@@ -1,136 +1,144 @@
 import { Request, Response, NextFunction } from "express";
-import Stripe from "stripe";
 import Order from "../models/orderModel";
 import Cart from "../models/cartModel";
+import User from "../models/user.model";
+import Subscription from "../models/subscription.model";
 import { CustomError } from "../middlewares/error";
 import { checkPermission } from "../helpers/authHelper";
-import axios from "axios";
+import { validateInput } from "../utils/validateInput";
 import { BASE_DOMAIN } from "../utils/globals";
-import { applyCoupon, recordCouponUsage } from "./coupon.controller";
+import {
+  recordCouponUsage,
+  releaseCouponReservations,
+  releaseCouponUsage,
+  reserveCoupons,
+} from "./coupon.controller";
 import {
   sendAdminNewOrderEmail,
   sendAdminPaymentReceivedEmail,
   sendOrderConfirmationEmail,
+  sendOrderStatusUpdateEmail,
   sendPaymentConfirmationEmail,
 } from "../utils/mailer";
+import {
+  CUSTOMER_NOTIFIED_STATUSES,
+  validateOrderStatusTransition,
+} from "../helpers/orderStatusHelper";
 import { Types } from "mongoose";
+import { validateFormResponses } from "../helpers/formResponseHelper";
 import {
   createInvoice,
+  creditInvoice,
   updateInvoicePaymentStatus,
   deleteInvoiceByOrderId,
+  cancelOrderInvoice,
 } from "./invoice.controller";
-
-// Initialize Stripe
-// const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-//   apiVersion: "2024-11-20.acacia",
-// });
-
-// Best setup
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-
-// Get currency based on IP
-const getCurrencyFromRegion = async (ip: string): Promise<string> => {
-  try {
-    const response = await axios.get(
-      `https://ipinfo.io/${ip}/json?token=${process.env.IPINFO_TOKEN}`
-    );
-    return response.data.country === "IN" ? "inr" : "usd";
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error("Error detecting region:", error);
-      throw new CustomError(500, error.message);
-    }
-    return "usd";
-  }
-};
-
-// Fetch exchange rate
-const getExchangeRate = async (currency: string): Promise<number> => {
-  if (currency === "usd") return 1;
-  try {
-    const response = await axios.get(
-      "https://api.exchangerate-api.com/v4/latest/USD"
-    );
-    return response.data.rates[currency.toUpperCase()] || 84;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error("Error detecting currency:", error);
-      throw new CustomError(500, error.message);
-    }
-    return 84; // Fallback rate
-  }
-};
-
-// Helper to create Stripe session (in local currency)
-const createStripeSession = async (
+import { getPaymentProvider } from "../services/payment-providers";
+import { nextSequenceNumber } from "../services/sequence.service";
+import { calculateTax } from "../services/tax.service";
+import {
+  getExchangeRate,
+  resolveRequestCurrency,
+} from "../services/currency.service";
+import {
+  getLinePrice,
+  priceLines,
+  roundPrice,
+} from "../services/pricing.service";
+import { recordCartRecovery } from "../services/abandoned-cart.service";
+import { evaluatePromotions } from "../services/promotion.service";
+import {
+  redeemGiftCard,
+  restoreOrderCredit,
+  spendCredit,
+  undoGiftCardRedemption,
+} from "../services/store-credit.service";
+import {
+  recordWebhookEvent,
+  runWebhookEvent,
+} from "../services/webhook-event.service";
+import {
+  CheckoutLineItem,
+  PaymentProviderName,
+  PaymentWebhookEvent,
+  ProviderRefundSummary,
+} from "../types/payment.types";
+import { OrderTypes } from "../types/orderTypes";
+import { TaxLine } from "../types/tax.types";
+import {
+  activateSubscription,
+  endSubscription,
+  renewSubscription,
+} from "./subscription.controller";
+
+// Helper to build checkout line items (in local currency), with each
+// add-on as its own line. Promotions are passed as one discount amount.
+// Lines are the USD prices the order is totalled, taxed and invoiced on,
+// converted at the order's rate, so the charge matches the order.
+const buildCheckoutLineItems = (
   cart: any,
-  orderNumber: string,
-  currency: string,
-  exchangeRate: number,
-  coupon: any,
-  discountUSD: number,
-  userId: string
-): Promise<Stripe.Checkout.Session> => {
-  const discountLocal = discountUSD * exchangeRate;
-
-  return stripe.checkout.sessions.create({
-    payment_method_types: ["card"],
-    line_items: cart.products.map((item: any) => {
-      const product = item.product;
-      const unitAmountUSD =
-        item.wordCount && item.wordCount > 0
-          ? (item.wordCount / 100) * product.pricePerUnit
-          : product.pricePerUnit;
-      const unitAmountLocal = unitAmountUSD * exchangeRate;
-
-      let adjustedUnitAmount = unitAmountLocal;
-      if (
-        coupon &&
-        coupon.discountType === "PRODUCT_SPECIFIC" &&
-        coupon.specificProduct?.toString() === product._id.toString()
-      ) {
-        adjustedUnitAmount = unitAmountLocal * (1 - coupon.discountValue / 100);
-      }
+  exchangeRate: number
+): CheckoutLineItem[] => {
+  return cart.products.flatMap((item: any) => {
+    const product = item.product;
+    const price = getLinePrice(product, item);
+
+    const lineItem = (name: string, amount: number): CheckoutLineItem => ({
+      name,
+      unitAmount: roundPrice(amount * exchangeRate),
+      quantity: item.quantity,
+      ...(product.pricingType === "perMonth" && {
+        recurringInterval: "month" as const,
+      }),
+    });
 
-      return {
-        price_data: {
-          currency,
-          product_data: { name: product.name },
-          unit_amount: Math.round(adjustedUnitAmount * 100), // Local currency cents/paise
-        },
-        quantity: item.quantity,
-      };
-    }),
-    ...(discountLocal > 0 && coupon?.discountType !== "PRODUCT_SPECIFIC"
-      ? {
-          discounts: [
-            {
-              coupon: await stripe.coupons
-                .create({
-                  amount_off: Math.round(discountLocal * 100),
-                  currency,
-                  duration: "once",
-                })
-                .then((c) => c.id),
-            },
-          ],
-        }
-      : {}),
-    mode: "payment",
-    success_url: `${BASE_DOMAIN}/expert-content-solutions/order/order-confirmation/${orderNumber}`,
-    cancel_url: `${BASE_DOMAIN}/expert-content-solutions`,
-    metadata: { userId, couponId: coupon?._id?.toString() || "" },
+    return [
+      lineItem(product.name, price.baseAmount),
+      ...price.addOns.map((addOn) =>
+        lineItem(`${product.name} – ${addOn.name}`, addOn.amount)
+      ),
+    ];
   });
 };
 
-// Helper to generate order number
-const generateOrderNumber = (): string => {
-  const now = new Date();
-  return `${String(now.getDate()).padStart(2, "0")}${String(
-    now.getMonth() + 1
-  ).padStart(2, "0")}${String(now.getFullYear()).slice(-2)}${String(
-    now.getHours()
-  ).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}`;
+// Helper to describe tax lines to the payment provider
+const getCheckoutTaxRates = (taxLines: TaxLine[]) =>
+  taxLines.map((line) => ({ name: line.type, rate: line.rate }));
+
+// Helper to get what the payment provider charged for an order, which is
+// what can be refunded through it
+const getChargedAmount = (
+  order: Pick<OrderTypes, "finalPrice" | "storeCreditApplied">
+) => Number((order.finalPrice - (order.storeCreditApplied ?? 0)).toFixed(2));
+
+// Helper to build the checkout redirect URLs for an order
+const getCheckoutUrls = (orderNumber: string) => ({
+  successUrl: `${BASE_DOMAIN}/expert-content-solutions/order/order-confirmation/${orderNumber}`,
+  cancelUrl: `${BASE_DOMAIN}/expert-content-solutions`,
+});
+
+// Helper to list the coupons an order used. Orders placed before promotions
+// were stored only have their couponId.
+const getPromotionCouponIds = (order: {
+  _id: Types.ObjectId;
+  couponId?: Types.ObjectId | null;
+  promotions?: { coupon: Types.ObjectId }[];
+}): Types.ObjectId[] =>
+  order.promotions?.length
+    ? order.promotions.map((promotion) => promotion.coupon)
+    : order.couponId
+    ? [order.couponId]
+    : [];
+
+// Helper to record usage of every coupon on a paid order, taking over the
+// order's reservations
+const recordPromotionUsage = async (
+  order: Parameters<typeof getPromotionCouponIds>[0],
+  userId: string
+) => {
+  for (const couponId of getPromotionCouponIds(order)) {
+    await recordCouponUsage(couponId, userId, order._id);
+  }
 };
 
 // *********************************************************
@@ -143,7 +151,14 @@ export const createOrder = async (
 ) => {
   try {
     const { userId } = req;
-    const { couponCode, paymentMethod, ip } = req.body;
+    const {
+      couponCode,
+      couponCodes,
+      paymentMethod,
+      cartTotal,
+      useStoreCredit,
+      giftCardCode,
+    } = req.body;
 
     if (!userId) {
       return next(
@@ -151,74 +166,253 @@ export const createOrder = async (
       );
     }
 
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const paymentProvider = getPaymentProvider(paymentMethod);
+
     const cart = await Cart.findOne({ userId }).populate("products.product");
     if (!cart || cart.products.length === 0) {
       return res.status(400).json({ message: "Cart is empty." });
     }
 
-    const currency = await getCurrencyFromRegion(ip);
+    // Every total below uses current product prices
+    const unavailableItem = cart.products.find(
+      (item: any) => !item.product || item.product.status !== "active"
+    );
+    if (unavailableItem) {
+      throw new CustomError(
+        400,
+        `${unavailableItem.product?.name ?? "A product"} in your cart is no longer available.`
+      );
+    }
+    cart.totalPrice = await priceLines(cart.products);
+    cart.totalQuantity = cart.products.reduce(
+      (sum, item) => sum + item.quantity,
+      0
+    );
+
+    // The customer must have seen the current total before paying it
+    if (Math.abs(cartTotal - cart.totalPrice) > 0.01) {
+      throw new CustomError(
+        409,
+        `Cart prices have changed. The current total is $${cart.totalPrice}; please review your cart.`
+      );
+    }
+
+    // Monthly products are billed through a provider subscription, one per order
+    const monthlyItems = cart.products.filter(
+      (item: any) => item.product.pricingType === "perMonth"
+    );
+    if (monthlyItems.length > 1) {
+      throw new CustomError(
+        400,
+        "Only one monthly product can be checked out per order."
+      );
+    }
+    if (monthlyItems.length > 0 && !paymentProvider.supportsSubscriptions) {
+      throw new CustomError(
+        400,
+        `Monthly products cannot be paid with ${paymentProvider.name}.`
+      );
+    }
+
+    // Answers are re-checked against the product's pinned form version and
+    // stored with their labels and that version; add-ons are itemised
+    // Promotions are evaluated on current prices; entered codes must apply
+    const promotionResult = await evaluatePromotions(cart.products, {
+      codes: Array.isArray(couponCodes)
+        ? couponCodes
+        : couponCode
+        ? [couponCode]
+        : [],
+      userId,
+    });
+
+    const orderProducts = [];
+    for (const [index, item] of (cart.products as any[]).entries()) {
+      const { formResponses, ...line } = item.toObject();
+      const validated = await validateFormResponses(item.product, formResponses);
+      orderProducts.push({
+        ...line,
+        discount: promotionResult.lines[index].discount,
+        addOns: getLinePrice(item.product, item).addOns,
+        formId: validated.formId,
+        formVersion: validated.formVersion,
+        formResponses: validated.responses,
+      });
+    }
+
+    const currency = await resolveRequestCurrency(req);
     const exchangeRate = await getExchangeRate(currency);
     const totalPriceUSD = cart.totalPrice;
 
-    let coupon = null;
-    let discountUSD = 0;
-    let finalPriceUSD = cart.totalPrice;
+    const discountUSD = promotionResult.discount;
+    let finalPriceUSD = promotionResult.total;
+    const { promotions } = promotionResult;
+    // couponId keeps pointing at the code the customer entered
+    const couponId = promotions.find((p) => !p.automatic)?.coupon ?? null;
 
-    if (couponCode) {
-      const couponResult = await applyCoupon(couponCode, cart, userId);
-      coupon = couponResult.coupon;
-      discountUSD = couponResult.discountUSD;
-      finalPriceUSD = couponResult.finalPriceUSD;
+    if (monthlyItems.length > 0 && finalPriceUSD === 0) {
+      throw new CustomError(400, "Monthly products cannot be checked out for free.");
     }
 
-    const orderNumber = generateOrderNumber();
+    // Tax is charged on the discounted total, based on the billing profile
+    const user = await User.findById(userId).select(
+      "name email contact billingAddress taxId"
+    );
+    const tax = await calculateTax(
+      finalPriceUSD,
+      user?.billingAddress,
+      user?.taxId
+    );
+    finalPriceUSD = Number((finalPriceUSD + tax.taxAmount).toFixed(2));
+
+    // Store credit pays part of the total after tax; monthly products renew
+    // through the provider, so their first payment can't use it
+    const payWithCredit = Boolean(useStoreCredit || giftCardCode);
+    if (payWithCredit && monthlyItems.length > 0) {
+      throw new CustomError(
+        400,
+        "Store credit cannot be used for monthly products."
+      );
+    }
+    const orderNumber = await nextSequenceNumber("order");
+
+    // Coupons are held for the order until it is paid or its checkout ends
+    const orderId = new Types.ObjectId();
+    await reserveCoupons(
+      promotions.map((promotion) => promotion.coupon),
+      orderId,
+      userId
+    );
 
     const orderData = {
+      _id: orderId,
       orderNumber,
       userId,
-      products: cart.products,
+      products: orderProducts,
       totalQuantity: cart.totalQuantity,
       totalPrice: totalPriceUSD,
       couponDiscount: discountUSD,
+      ...tax,
+      billingAddress: user?.billingAddress ?? null,
+      customerTaxId: user?.taxId ?? null,
       finalPrice: finalPriceUSD,
-      couponId: coupon?._id || null,
+      storeCreditApplied: 0,
+      couponId,
+      promotions,
       invoiceId: "",
-      paymentMethod,
+      paymentMethod: paymentProvider.name,
+      currency,
+      exchangeRate,
+      statusHistory: [
+        {
+          from: null,
+          to: "Pending",
+          changedBy: userId,
+          note: "Order placed",
+          changedAt: new Date(),
+        },
+      ],
     };
 
     let newOrder;
-    if (finalPriceUSD === 0) {
-      newOrder = new Order({
-        ...orderData,
-        paymentId: null,
-        paymentUrl: null,
-        paymentStatus: "Paid",
-      });
-      await newOrder.save();
-    } else {
-      const session = await createStripeSession(
-        cart,
-        orderNumber,
+    let amountDueUSD = finalPriceUSD;
+    let giftCardCredit = null;
+    try {
+      // The card is loaded onto the ledger and spent with the rest of the
+      // credit; a failed checkout gives the card back
+      if (giftCardCode) {
+        giftCardCredit = await redeemGiftCard(String(giftCardCode), userId);
+      }
+      if (payWithCredit && finalPriceUSD > 0) {
+        const storeCreditUSD = await spendCredit(userId, finalPriceUSD, {
+          source: "order",
+          reason: `Order ${orderNumber}`,
+          orderId,
+        });
+        orderData.storeCreditApplied = storeCreditUSD;
+        amountDueUSD = Number((finalPriceUSD - storeCreditUSD).toFixed(2));
+      }
+
+      if (amountDueUSD === 0) {
+        newOrder = new Order({
+          ...orderData,
+          paymentId: null,
+          paymentUrl: null,
+          paymentStatus: "Paid",
+        });
+        await newOrder.save();
+      } else {
+        const session = await paymentProvider.createCheckout({
+          orderNumber,
+          currency,
+          lineItems: buildCheckoutLineItems(cart, exchangeRate),
+          discountAmount: discountUSD * exchangeRate,
+          taxRates: getCheckoutTaxRates(tax.taxLines),
+          creditAmount: orderData.storeCreditApplied * exchangeRate,
+          customer: {
+            name: user?.name,
+            email: user?.email,
+            contact: user?.contact,
+          },
+          metadata: { userId, couponId: couponId?.toString() || "" },
+          ...getCheckoutUrls(orderNumber),
+        });
+        newOrder = new Order({
+          ...orderData,
+          paymentId: session.paymentId,
+          paymentUrl: session.paymentUrl,
+          status: "Pending",
+          paymentStatus: "Unpaid",
+        });
+        await newOrder.save();
+      }
+    } catch (error) {
+      await releaseCouponReservations(orderId);
+      await restoreOrderCredit(orderId);
+      if (giftCardCredit) {
+        await undoGiftCardRedemption(giftCardCredit);
+      }
+      throw error;
+    }
+
+    // Orders with nothing left to pay never reach the payment webhook
+    if (newOrder.paymentStatus === "Paid") {
+      await recordPromotionUsage(newOrder, userId);
+    }
+
+    if (monthlyItems.length > 0) {
+      const [monthlyItem] = monthlyItems;
+      const subscriptionTax = await calculateTax(
+        monthlyItem.totalPrice,
+        user?.billingAddress,
+        user?.taxId
+      );
+      const subscription = await Subscription.create({
+        userId,
+        product: monthlyItem.product._id,
+        orderId: newOrder._id,
+        wordCount: monthlyItem.wordCount,
+        quantity: monthlyItem.quantity,
+        additionalInfo: monthlyItem.additionalInfo,
+        amount: monthlyItem.totalPrice,
+        taxLines: subscriptionTax.taxLines,
+        taxAmount: subscriptionTax.taxAmount,
         currency,
         exchangeRate,
-        coupon,
-        discountUSD,
-        userId
-      );
-      newOrder = new Order({
-        ...orderData,
-        paymentId: session.id,
-        paymentUrl: session.url,
-        status: "Pending",
-        paymentStatus: "Unpaid",
+        paymentMethod: paymentProvider.name,
       });
+      newOrder.subscriptionId = subscription._id;
       await newOrder.save();
     }
 
     // Create invoice for both free and paid orders
-    await createInvoice(newOrder._id.toString(), paymentMethod);
+    await createInvoice(newOrder._id.toString(), paymentProvider.name);
 
     await cart.updateOne({ products: [], totalPrice: 0, totalQuantity: 0 });
+    await recordCartRecovery(cart._id, newOrder._id, totalPriceUSD);
 
     Promise.all([
       sendOrderConfirmationEmail(newOrder._id.toString()),
@@ -229,15 +423,17 @@ export const createOrder = async (
       message: "Order created successfully.",
       data: newOrder,
       redirectUrl:
-        finalPriceUSD === 0
+        amountDueUSD === 0
           ? `${BASE_DOMAIN}/expert-content-solutions/order/order-confirmation/${orderNumber}`
           : undefined,
-      sessionId: finalPriceUSD !== 0 ? newOrder.paymentId : undefined,
+      sessionId: amountDueUSD !== 0 ? newOrder.paymentId : undefined,
+      paymentUrl: amountDueUSD !== 0 ? newOrder.paymentUrl : undefined,
     };
 
     res.status(201).json(response);
   } catch (error) {
     console.error(`Error in createOrder:`, error);
+    if (error instanceof CustomError) return next(error);
     next(
       new CustomError(
         500,
@@ -247,164 +443,391 @@ export const createOrder = async (
   }
 };
 
-// *********************************************************
-// ************** Handle Stripe Webhook Events *************
-// *********************************************************
-export const stripeWebhook = async (req: Request, res: Response) => {
-  const sig = req.headers["stripe-signature"]!;
-  if (!sig) {
-    return res.status(400).send("Missing Stripe signature header");
+// Helper to refund a checkout that was paid after its order was cancelled.
+// The cancel already gave back the order's coupons and store credit, so the
+// whole payment is returned and no coupon usage is recorded.
+const refundCancelledOrderPayment = async (
+  providerName: PaymentProviderName,
+  event: PaymentWebhookEvent
+): Promise<void> => {
+  const order = await Order.findOne({
+    paymentId: event.paymentId,
+    status: "Cancelled",
+    paymentStatus: { $nin: ["Paid", "Refunded"] },
+  });
+  if (!order) return;
+
+  const provider = getPaymentProvider(providerName);
+  const transactionId =
+    event.transactionId ||
+    (await provider.resolveTransactionId(event.paymentId!));
+  if (!transactionId) {
+    throw new CustomError(
+      400,
+      `No captured payment found for cancelled order ${order.orderNumber}`
+    );
   }
 
-  let event: Stripe.Event;
+  // A subscription checkout also started the provider subscription
+  if (order.subscriptionId && event.subscriptionId) {
+    const subscription = await provider.getSubscription(event.subscriptionId);
+    if (subscription.status !== "canceled") {
+      await provider.cancelSubscription(event.subscriptionId, false);
+    }
+    await Subscription.updateOne(
+      { _id: order.subscriptionId, status: "Incomplete" },
+      { status: "Cancelled", cancelledAt: new Date() }
+    );
+  }
 
-  try {
-    event = stripe.webhooks.constructEvent(
-      req.body,
-      sig,
-      process.env.STRIPE_WEBHOOK_SECRET!
+  // A redelivered event finds the refund already made
+  const reason = "Order was cancelled before payment";
+  const summary = await provider.getRefunds(transactionId);
+  const providerRefunded = summary.refunds.reduce(
+    (sum, refund) => sum + refund.amount,
+    0
+  );
+  if (providerRefunded < summary.capturedAmount) {
+    summary.refunds.push(
+      await provider.refund({
+        transactionId,
+        reason,
+        metadata: { orderId: order._id.toString() },
+      })
     );
-  } catch (err) {
-    if (err instanceof Error) {
-      return res.status(400).send(`Webhook Error: ${err.message}`);
-    } else {
-      return res.status(400).send(`Webhook Error: ${err}`);
-    }
   }
 
-  switch (event.type) {
-    case "checkout.session.completed":
-      const session = event.data.object as Stripe.Checkout.Session;
+  const chargedAmount = getChargedAmount(order);
+  await Order.updateOne(
+    { _id: order._id, paymentStatus: { $ne: "Refunded" } },
+    {
+      paymentStatus: "Refunded",
+      transactionId,
+      refundedAmount: chargedAmount,
+      refunds: summary.refunds.map((refund) => ({
+        refundId: refund.refundId,
+        amount: Number(
+          (
+            (chargedAmount * refund.amount) /
+            summary.capturedAmount
+          ).toFixed(2)
+        ),
+        providerAmount: refund.amount,
+        reason,
+        source: "provider",
+        refundedAt: refund.createdAt,
+      })),
+    }
+  );
+  await updateInvoicePaymentStatus(order._id.toString(), "Refunded");
+};
 
-      if (session.payment_status === "paid") {
-        const updatedOrder = await Order.findOneAndUpdate(
-          { paymentId: session.id },
-          {
-            paymentStatus: "Paid",
-            paymentDate: Date.now(),
-          },
-          { new: true }
-        );
-        if (updatedOrder) {
-          // Update invoice payment status
-          await updateInvoicePaymentStatus(updatedOrder._id.toString(), "Paid");
-
-          // Record coupon usage after successful payment
-          if (session.metadata && session.metadata.couponId) {
-            await recordCouponUsage(
-              new Types.ObjectId(session.metadata.couponId),
-              session.metadata.userId
-            );
-          }
+// Helper to apply a verified payment event to the matching order and invoice.
+// Safe to run more than once for the same event (retries and admin replays).
+export const processPaymentEvent = async (
+  providerName: PaymentProviderName,
+  event: PaymentWebhookEvent
+): Promise<void> => {
+  if (!event.paymentId && !event.transactionId && !event.subscriptionId) {
+    return;
+  }
 
-          // Send emails asynchronously
-          Promise.all([
-            sendPaymentConfirmationEmail(updatedOrder._id.toString()),
-            sendAdminPaymentReceivedEmail(updatedOrder._id.toString()),
-          ]).catch((err) => console.error("Email sending failed:", err));
+  switch (event.action) {
+    case "paid": {
+      // Only the first delivery flips the order, so coupon usage and
+      // emails are not repeated. Cancelled orders are refunded instead.
+      const updatedOrder = await Order.findOneAndUpdate(
+        {
+          paymentId: event.paymentId,
+          paymentStatus: { $ne: "Paid" },
+          status: { $ne: "Cancelled" },
+        },
+        {
+          paymentStatus: "Paid",
+          paymentDate: Date.now(),
+          ...(event.transactionId && { transactionId: event.transactionId }),
+        },
+        { new: true }
+      );
+      if (!updatedOrder) {
+        await refundCancelledOrderPayment(providerName, event);
+      } else {
+        // Update invoice payment status
+        await updateInvoicePaymentStatus(updatedOrder._id.toString(), "Paid");
+
+        if (updatedOrder.subscriptionId && event.subscriptionId) {
+          await activateSubscription(
+            updatedOrder.subscriptionId,
+            event.subscriptionId
+          );
         }
+
+        // Record coupon usage after successful payment
+        await recordPromotionUsage(updatedOrder, event.metadata.userId);
+
+        // Send emails asynchronously
+        Promise.all([
+          sendPaymentConfirmationEmail(updatedOrder._id.toString()),
+          sendAdminPaymentReceivedEmail(updatedOrder._id.toString()),
+        ]).catch((err) => console.error("Email sending failed:", err));
       }
       break;
+    }
 
-    case "checkout.session.expired":
-      const expiredSession = event.data.object as Stripe.Checkout.Session;
+    case "failed": {
       const updatedOrder = await Order.findOneAndUpdate(
-        { paymentId: expiredSession.id },
-        { paymentStatus: "Unpaid" },
+        {
+          paymentId: event.paymentId,
+          paymentStatus: "Unpaid",
+          status: { $ne: "Cancelled" },
+        },
+        { paymentStatus: "Failed" },
         { new: true }
       );
       if (updatedOrder) {
-        await updateInvoicePaymentStatus(updatedOrder._id.toString(), "Unpaid");
+        await updateInvoicePaymentStatus(updatedOrder._id.toString(), "Failed");
+      }
+      break;
+    }
 
-        // Create a new checkout session if expired
-        const userId = expiredSession.metadata?.userId;
+    case "expired": {
+      // Cancelled orders expire their own checkout and are not reopened
+      const updatedOrder = await Order.findOneAndUpdate(
+        {
+          paymentId: event.paymentId,
+          paymentStatus: { $ne: "Paid" },
+          status: { $ne: "Cancelled" },
+        },
+        { paymentStatus: "Unpaid" },
+        { new: true }
+      );
+      if (!updatedOrder) break;
 
-        if (!userId) {
-          throw new CustomError(
-            400,
-            "User ID missing in Stripe session metadata"
-          );
-        }
+      await updateInvoicePaymentStatus(updatedOrder._id.toString(), "Unpaid");
 
-        const cart = await Cart.findOne({ userId });
-        // if (cart && cart.products.length > 0) {
-        //   const newSession = await stripe.checkout.sessions.create({
-        //     payment_method_types: ["card"],
-        //     line_items: cart.products.map((product: any) => ({
-        //       price_data: {
-        //         currency: "usd",
-        //         product_data: {
-        //           name: product.product.name,
-        //         },
-        //         unit_amount: Math.round(product.totalPrice * 100),
-        //       },
-        //       quantity: product.quantity,
-        //     })),
-        //     mode: "payment",
-        //     success_url: expiredSession.success_url,
-        //     cancel_url: expiredSession.cancel_url,
-        //     metadata: {
-        //       userId: expiredSession.metadata.userId,
-        //       couponId: expiredSession.metadata.couponId,
-        //     },
-        //   });
-
-        //   await Order.findOneAndUpdate(
-        //     { paymentId: expiredSession.id },
-        //     {
-        //       paymentUrl: newSession.url,
-        //       paymentId: newSession.id,
-        //     },
-        //     { new: true }
-        //   );
-        // }
-        const metadata = expiredSession.metadata;
-
-        if (!metadata?.userId) {
-          throw new CustomError(400, "Stripe session metadata missing userId");
-        }
+      // The expired checkout no longer holds its coupons or store credit
+      await releaseCouponReservations(updatedOrder._id);
+      await restoreOrderCredit(updatedOrder._id);
 
-        const couponId = metadata.couponId;
-        if (cart && cart.products.length > 0) {
-          const newSession = await stripe.checkout.sessions.create({
-            line_items: cart.products.map((product: any) => ({
-              price_data: {
-                currency: "usd",
-                product_data: {
-                  name: product.product.name,
-                },
-                unit_amount: Math.round(product.totalPrice * 100),
-              },
-              quantity: product.quantity,
-            })),
-            mode: "payment",
-            success_url: expiredSession.success_url!,
-            cancel_url: expiredSession.cancel_url!,
-
-            metadata: {
-              userId,
-              ...(couponId && { couponId }),
-            },
-          });
+      // Create a new checkout if the user still has items in the cart
+      const userId = event.metadata.userId;
+      if (!userId) {
+        throw new CustomError(
+          400,
+          `User ID missing in ${providerName} payment metadata`
+        );
+      }
 
-          await Order.findOneAndUpdate(
-            { paymentId: expiredSession.id },
+      const cart = await Cart.findOne({ userId }).populate("products.product");
+      if (cart && cart.products.length > 0) {
+        // The new checkout keeps the discount only while its coupons can
+        // still be reserved; otherwise the customer checks out again
+        try {
+          await reserveCoupons(
+            getPromotionCouponIds(updatedOrder),
+            updatedOrder._id,
+            userId
+          );
+        } catch (error) {
+          if (error instanceof CustomError) break;
+          throw error;
+        }
+
+        // Likewise for the store credit it was paying with
+        if (updatedOrder.storeCreditApplied > 0) {
+          const spent = await spendCredit(
+            userId,
+            updatedOrder.storeCreditApplied,
             {
-              paymentUrl: newSession.url,
-              paymentId: newSession.id,
-            },
-            { new: true }
+              source: "order",
+              reason: `Order ${updatedOrder.orderNumber}`,
+              orderId: updatedOrder._id,
+            }
           );
+          if (spent < updatedOrder.storeCreditApplied) {
+            await restoreOrderCredit(updatedOrder._id);
+            await releaseCouponReservations(updatedOrder._id);
+            break;
+          }
         }
+
+        const couponId = event.metadata.couponId;
+        const newSession = await getPaymentProvider(
+          providerName
+        ).createCheckout({
+          orderNumber: updatedOrder.orderNumber!,
+          currency: updatedOrder.currency,
+          lineItems: buildCheckoutLineItems(cart, updatedOrder.exchangeRate),
+          discountAmount: updatedOrder.couponDiscount * updatedOrder.exchangeRate,
+          taxRates: getCheckoutTaxRates(updatedOrder.taxLines),
+          creditAmount:
+            updatedOrder.storeCreditApplied * updatedOrder.exchangeRate,
+          metadata: {
+            userId,
+            ...(couponId && { couponId }),
+          },
+          ...getCheckoutUrls(updatedOrder.orderNumber!),
+        });
+
+        await Order.findByIdAndUpdate(
+          updatedOrder._id,
+          {
+            paymentUrl: newSession.paymentUrl,
+            paymentId: newSession.paymentId,
+          },
+          { new: true }
+        );
       }
       break;
+    }
+
+    case "refunded": {
+      // Refunds made outside the admin panel (e.g. the Stripe dashboard)
+      const order = await Order.findOne({
+        transactionId: event.transactionId,
+      });
+      if (!order) break;
+
+      const summary = await getPaymentProvider(providerName).getRefunds(
+        event.transactionId!
+      );
+      await syncOrderRefunds(order, summary);
+      break;
+    }
+
+    case "renewed":
+      await renewSubscription(providerName, event);
+      break;
+
+    case "cancelled":
+      await endSubscription(event);
+      break;
 
     default:
   }
+};
+
+// Helper to record provider refunds missing on the order, then update the
+// order, invoice and coupon usage to match. Refunds are matched by id, so
+// this is safe to call from both the admin endpoint and refund webhooks.
+const syncOrderRefunds = async (
+  order: OrderTypes & { _id: Types.ObjectId },
+  summary: ProviderRefundSummary,
+  details?: {
+    refundId: string;
+    amount: number;
+    reason?: string;
+    createdBy: string;
+  }
+) => {
+  const orderId = order._id.toString();
+  const chargedAmount = getChargedAmount(order);
+
+  for (const refund of summary.refunds) {
+    const isAdminRefund = details?.refundId === refund.refundId;
+    const amount = isAdminRefund
+      ? details!.amount
+      : Number(
+          (
+            (chargedAmount * refund.amount) /
+            summary.capturedAmount
+          ).toFixed(2)
+        );
+    const reason = isAdminRefund ? details!.reason : "Refunded via provider";
 
-  res.status(200).json({ received: true });
+    const updated = await Order.findOneAndUpdate(
+      { _id: order._id, "refunds.refundId": { $ne: refund.refundId } },
+      {
+        $push: {
+          refunds: {
+            refundId: refund.refundId,
+            amount,
+            providerAmount: refund.amount,
+            reason,
+            source: isAdminRefund ? "admin" : "provider",
+            createdBy: isAdminRefund ? details!.createdBy : null,
+            refundedAt: refund.createdAt,
+          },
+        },
+        $inc: { refundedAmount: amount },
+      }
+    );
+    if (updated) {
+      await creditInvoice(orderId, { refundId: refund.refundId, amount, reason });
+    }
+  }
+
+  const current = await Order.findById(order._id);
+  if (!current) return null;
+
+  const fullyRefunded = current.refundedAmount >= chargedAmount - 0.01;
+  const paymentStatus = fullyRefunded ? "Refunded" : "Partially Refunded";
+
+  // Only the transition into "Refunded" releases the coupon and gives back
+  // the store credit paid towards the order
+  const transitioned = await Order.findOneAndUpdate(
+    { _id: order._id, paymentStatus: { $nin: [paymentStatus, "Refunded"] } },
+    { paymentStatus },
+    { new: true }
+  );
+  if (!transitioned) return current;
+
+  await updateInvoicePaymentStatus(orderId, paymentStatus);
+  if (fullyRefunded) {
+    for (const couponId of getPromotionCouponIds(transitioned)) {
+      await releaseCouponUsage(couponId, transitioned.userId.toString());
+    }
+    await restoreOrderCredit(transitioned._id);
+  }
+
+  return transitioned;
 };
 
+// Helper to build a webhook handler for a payment provider.
+// The route must use express.raw so the signature can be verified.
+const handlePaymentWebhook =
+  (paymentMethod: PaymentProviderName) =>
+  async (req: Request, res: Response) => {
+    const provider = getPaymentProvider(paymentMethod);
+
+    let event: PaymentWebhookEvent;
+    try {
+      event = provider.constructWebhookEvent(req.body, req.headers);
+    } catch (err) {
+      if (err instanceof Error) {
+        return res.status(400).send(`Webhook Error: ${err.message}`);
+      } else {
+        return res.status(400).send(`Webhook Error: ${err}`);
+      }
+    }
+
+    // Persist first so redeliveries of the same event id are skipped
+    const record = await recordWebhookEvent(provider.name, event);
+    if (record.status === "Processed") {
+      return res.status(200).json({ received: true, duplicate: true });
+    }
+
+    try {
+      await runWebhookEvent(record, processPaymentEvent);
+    } catch (err) {
+      // A non-2xx response makes the provider deliver the event again
+      console.error(`Error processing ${provider.name} event ${event.id}:`, err);
+      return res.status(500).json({ received: false });
+    }
+
+    res.status(200).json({ received: true });
+  };
+
+// *********************************************************
+// ************** Handle Stripe Webhook Events *************
+// *********************************************************
+export const stripeWebhook = handlePaymentWebhook("Stripe");
+
+// *********************************************************
+// ************* Handle Razorpay Webhook Events ************
+// *********************************************************
+export const razorpayWebhook = handlePaymentWebhook("Razorpay");
+
 // *********************************************************
 // ************ Retrieve All Orders for Admin **************
 // *********************************************************
@@ -430,6 +853,7 @@ export const getOrders = async (
           "userId",
           "-wishlist -orderHistory -refreshToken -createdAt -updatedAt -__v"
         )
+        .populate("statusHistory.changedBy", "name email")
         .populate({
           path: "products.product",
           populate: {
@@ -479,7 +903,8 @@ export const updateOrder = async (
   try {
     const { userId } = req;
     const { orderId } = req.query;
-    const updateData = req.body;
+    // History is only ever appended through status changes
+    const { statusNote, statusHistory, ...updateData } = req.body;
 
     // Check Permission
     const permissionCheck = await checkPermission(userId, "orders", 3);
@@ -487,26 +912,194 @@ export const updateOrder = async (
       return res.status(403).json({ message: "Permission denied" });
     }
 
-    if (updateData.paymentStatus && orderId) {
-      await updateInvoicePaymentStatus(
-        orderId.toString(),
-        updateData.paymentStatus
+    // Payment state only changes through payment webhooks and refunds
+    if (updateData.paymentStatus !== undefined) {
+      throw new CustomError(
+        400,
+        "Payment status cannot be changed here; it follows payments and refunds."
       );
     }
 
-    const updatedOrder = await Order.findByIdAndUpdate(orderId, updateData, {
-      new: true,
-    });
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    const statusChanged =
+      updateData.status !== undefined && updateData.status !== order.status;
+    if (statusChanged) {
+      validateOrderStatusTransition(order, updateData.status);
+    }
+
+    // Match on the current status so concurrent changes can't skip the rules
+    const updatedOrder = await Order.findOneAndUpdate(
+      {
+        _id: order._id,
+        status: order.status,
+        paymentStatus: order.paymentStatus,
+      },
+      {
+        ...updateData,
+        ...(statusChanged && {
+          $push: {
+            statusHistory: {
+              from: order.status,
+              to: updateData.status,
+              changedBy: userId,
+              note: statusNote,
+              changedAt: new Date(),
+            },
+          },
+        }),
+      },
+      { new: true }
+    );
 
     if (!updatedOrder) {
-      return res.status(404).json({ message: "Order not found." });
+      throw new CustomError(
+        409,
+        "Order was changed by someone else. Please reload and try again."
+      );
+    }
+
+    // A cancelled order no longer holds coupons; used ones stay used. Store
+    // credit comes back unless the order was paid, which takes a refund.
+    if (statusChanged && updatedOrder.status === "Cancelled") {
+      if (
+        updatedOrder.paymentId &&
+        ["Unpaid", "Failed"].includes(updatedOrder.paymentStatus)
+      ) {
+        // Close the checkout; a payment that still gets through is refunded
+        // by the payment webhook
+        await getPaymentProvider(updatedOrder.paymentMethod)
+          .expireCheckout(updatedOrder.paymentId)
+          .catch((err) =>
+            console.error(
+              `Failed to expire checkout for order ${updatedOrder.orderNumber}:`,
+              err
+            )
+          );
+      }
+      await releaseCouponReservations(updatedOrder._id);
+      if (["Unpaid", "Failed"].includes(updatedOrder.paymentStatus)) {
+        await restoreOrderCredit(updatedOrder._id);
+        await cancelOrderInvoice(updatedOrder._id.toString());
+      }
+    }
+
+    if (
+      statusChanged &&
+      CUSTOMER_NOTIFIED_STATUSES.includes(updatedOrder.status)
+    ) {
+      sendOrderStatusUpdateEmail(updatedOrder._id.toString(), statusNote).catch(
+        (err) => console.error("Email sending failed:", err)
+      );
     }
 
     res
       .status(200)
       .json({ message: "Order updated successfully.", data: updatedOrder });
   } catch (error) {
-    if (error instanceof Error) {
+    if (error instanceof CustomError) {
+      next(error);
+    } else if (error instanceof Error) {
+      next(new CustomError(500, error.message));
+    } else {
+      next(new CustomError(500, "An unknown error occurred."));
+    }
+  }
+};
+
+// *********************************************************
+// ************ Refund an Order (Admin) ********************
+// *********************************************************
+export const refundOrder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { orderId } = req.query;
+    const { amount, reason } = req.body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "orders", 3);
+    if (!permissionCheck) {
+      return res.status(403).json({ message: "Permission denied" });
+    }
+
+    const order = await Order.findById(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found." });
+    }
+
+    if (!["Paid", "Partially Refunded"].includes(order.paymentStatus)) {
+      throw new CustomError(400, "Only paid orders can be refunded.");
+    }
+    if (order.finalPrice <= 0) {
+      throw new CustomError(400, "Free orders cannot be refunded.");
+    }
+    const chargedAmount = getChargedAmount(order);
+    if (chargedAmount <= 0) {
+      throw new CustomError(
+        400,
+        "Orders paid entirely with store credit are refunded as store credit."
+      );
+    }
+
+    const remaining = Number(
+      (chargedAmount - (order.refundedAmount ?? 0)).toFixed(2)
+    );
+    const refundAmount =
+      amount !== undefined ? Number(Number(amount).toFixed(2)) : remaining;
+    if (!(refundAmount > 0) || refundAmount > remaining) {
+      throw new CustomError(
+        400,
+        `Refund amount must be greater than 0 and at most $${remaining}.`
+      );
+    }
+
+    const provider = getPaymentProvider(order.paymentMethod);
+    const transactionId =
+      order.transactionId ||
+      (await provider.resolveTransactionId(order.paymentId));
+    if (!transactionId) {
+      throw new CustomError(400, "No captured payment found for this order.");
+    }
+    if (!order.transactionId) {
+      await Order.findByIdAndUpdate(order._id, { transactionId });
+    }
+
+    // Order amounts are in USD, so scale against what was actually captured
+    const summary = await provider.getRefunds(transactionId);
+    const refund = await provider.refund({
+      transactionId,
+      amount:
+        refundAmount === remaining
+          ? undefined
+          : Math.round(
+              (refundAmount / chargedAmount) * summary.capturedAmount
+            ),
+      reason,
+      metadata: { orderId: order._id.toString() },
+    });
+    summary.refunds.push(refund);
+
+    const updatedOrder = await syncOrderRefunds(order, summary, {
+      refundId: refund.refundId,
+      amount: refundAmount,
+      reason,
+      createdBy: userId,
+    });
+
+    res
+      .status(200)
+      .json({ message: "Order refunded successfully.", data: updatedOrder });
+  } catch (error) {
+    if (error instanceof CustomError) {
+      next(error);
+    } else if (error instanceof Error) {
       next(new CustomError(500, error.message));
     } else {
       next(new CustomError(500, "An unknown error occurred."));
@@ -6,6 +6,10 @@ import { checkPermission } from "../helpers/authHelper";
 import { ProductTypes } from "../types/productTypes";
 import { Types } from "mongoose";
 import Product_Category from "../models/product-category.model";
+import FormModel from "../models/form.model";
+import FormVersion from "../models/form-version.model";
+import { publishFormVersion } from "../services/product-form.service";
+import { sendWishlistAlerts } from "../services/wishlist-alert.service";
 import { validateInput } from "../utils/validateInput";
 
 // Helper function to check if a slug is unique
@@ -27,6 +31,31 @@ const fetchProduct = async (identifier: string) => {
   }
 };
 
+// Helper function to pin a product to a form version, defaulting to the
+// form's latest
+const resolveFormVersion = async (
+  formId: string | Types.ObjectId,
+  formVersion?: number | string | null
+): Promise<number> => {
+  const form = await FormModel.findById(formId).select("currentVersion");
+  if (!form) {
+    throw new CustomError(404, "Form not found");
+  }
+
+  if (formVersion) {
+    const version = Number(formVersion);
+    if (!(await FormVersion.exists({ formId: form._id, version }))) {
+      throw new CustomError(404, `Form version ${version} not found`);
+    }
+    return version;
+  }
+
+  if (!form.currentVersion) {
+    return (await publishFormVersion(form._id)).version;
+  }
+  return form.currentVersion;
+};
+
 // Helper function to update product in categories
 const updateProductInCategories = async (
   productId: Types.ObjectId,
@@ -156,6 +185,13 @@ export const createProduct = async (
       }
     }
 
+    // Pin the product's form version
+    if (body.formId) {
+      body.formVersion = await resolveFormVersion(body.formId, body.formVersion);
+    } else {
+      body.formVersion = null;
+    }
+
     // Create the product
     const newProduct: ProductTypes = {
       ...body,
@@ -329,6 +365,14 @@ export const updateProduct = async (
       }
     }
 
+    // Re-pin the form version when the form or version changes
+    if (body.formId !== undefined || body.formVersion !== undefined) {
+      const formId = body.formId !== undefined ? body.formId : product.formId;
+      body.formVersion = formId
+        ? await resolveFormVersion(formId, body.formVersion)
+        : null;
+    }
+
     // Update the product
     body.updatedBy = userId;
     const updatedProduct = await Product.findByIdAndUpdate(
@@ -337,6 +381,13 @@ export const updateProduct = async (
       { new: true }
     );
 
+    // Customers watching the product hear about restocks and price drops
+    if (updatedProduct) {
+      sendWishlistAlerts(product._id, product, updatedProduct).catch((err) =>
+        console.error("Wishlist alerts failed:", err)
+      );
+    }
+
     res.status(200).json({
       success: true,
       message: "Product updated successfully",
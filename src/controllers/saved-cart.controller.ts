@@ -0,0 +1,255 @@
+import { NextFunction, Request, Response } from "express";
+import Cart from "../models/cartModel";
+import SavedCart from "../models/saved-cart.model";
+import { CustomError } from "../middlewares/error";
+import { validateInput } from "../utils/validateInput";
+import { restoreCartLines } from "./cart.controller";
+import { SavedCartLine } from "../types/cartTypes";
+
+// Helper to copy the user's current cart lines for a saved cart. Lines that
+// can no longer be bought are left out.
+const getCartLinesToSave = async (userId: string) => {
+  const cart = await Cart.findOne({ userId }).lean();
+  const lines = (cart?.products ?? []).filter((line) => !line.unavailable);
+  if (!cart || lines.length === 0) {
+    throw new CustomError(400, "Cart is empty.");
+  }
+
+  const products: SavedCartLine[] = lines.map((line) => ({
+    product: line.product,
+    wordCount: line.wordCount,
+    quantity: line.quantity,
+    additionalInfo: line.additionalInfo,
+    formResponses: line.formResponses,
+    addOns: line.addOns,
+  }));
+  const totalPrice = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+
+  return { products, totalPrice: Number(totalPrice.toFixed(2)) };
+};
+
+// Helper to ensure a saved cart name is not already used by the customer
+const assertNameAvailable = async (
+  userId: string,
+  name: string,
+  excludeId?: unknown
+) => {
+  const existing = await SavedCart.exists({
+    userId,
+    name,
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+  });
+  if (existing) {
+    throw new CustomError(409, `You already have a saved cart named "${name}"`);
+  }
+};
+
+// *********************************************************
+// ************ Save the Current Cart **********************
+// *********************************************************
+export const createSavedCart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { name } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    await assertNameAvailable(userId, name);
+    const { products, totalPrice } = await getCartLinesToSave(userId);
+
+    const savedCart = await SavedCart.create({
+      userId,
+      name,
+      products,
+      totalPrice,
+    });
+
+    res.status(201).json({
+      message: "Cart saved successfully",
+      data: savedCart,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Retrieve Saved Carts ***********************
+// *********************************************************
+export const getSavedCarts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+
+    if (id) {
+      const savedCart = await SavedCart.findOne({ _id: id, userId })
+        .populate("products.product", "name slug featuredImage pricingType status")
+        .lean();
+      if (!savedCart) {
+        throw new CustomError(404, "Saved cart not found");
+      }
+      return res.status(200).json({ data: savedCart });
+    }
+
+    const savedCarts = await SavedCart.find({ userId })
+      .populate("products.product", "name slug featuredImage pricingType status")
+      .sort({ lastUsedAt: -1, updatedAt: -1 })
+      .lean();
+
+    res.status(200).json({ data: savedCarts, count: savedCarts.length });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Update a Saved Cart ************************
+// *********************************************************
+export const updateSavedCart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+    const { name, replaceWithCart } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+    if (!id) {
+      throw new CustomError(400, "id is required");
+    }
+
+    const savedCart = await SavedCart.findOne({ _id: id, userId });
+    if (!savedCart) {
+      throw new CustomError(404, "Saved cart not found");
+    }
+
+    if (name !== undefined && name !== savedCart.name) {
+      await assertNameAvailable(userId, name, savedCart._id);
+      savedCart.name = name;
+    }
+
+    // The saved lines can be replaced with what is in the cart now
+    if (replaceWithCart) {
+      const { products, totalPrice } = await getCartLinesToSave(userId);
+      savedCart.set({ products, totalPrice });
+    }
+
+    await savedCart.save();
+
+    res.status(200).json({
+      message: "Saved cart updated successfully",
+      data: savedCart,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Delete a Saved Cart ************************
+// *********************************************************
+export const deleteSavedCart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+
+    if (!id) {
+      throw new CustomError(400, "id is required");
+    }
+
+    const savedCart = await SavedCart.findOneAndDelete({ _id: id, userId });
+    if (!savedCart) {
+      throw new CustomError(404, "Saved cart not found");
+    }
+
+    res.status(200).json({ message: "Saved cart deleted successfully" });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Load a Saved Cart into the Cart ************
+// *********************************************************
+export const loadSavedCart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+    const { append } = req.body;
+
+    if (!id) {
+      throw new CustomError(400, "id is required");
+    }
+
+    const savedCart = await SavedCart.findOne({ _id: id, userId }).lean();
+    if (!savedCart) {
+      throw new CustomError(404, "Saved cart not found");
+    }
+
+    // Lines are checked and priced again, as when reordering
+    const lines = savedCart.products.map(({ _id, ...line }: any) => ({
+      ...line,
+      product: { _id: line.product },
+      totalPrice: 0,
+    }));
+
+    const { cart, result } = await restoreCartLines(
+      userId,
+      lines,
+      Boolean(append)
+    );
+    if (!cart) {
+      return res.status(400).json({
+        message: "None of the products in this saved cart can be ordered.",
+        ...result,
+      });
+    }
+
+    await SavedCart.updateOne({ _id: savedCart._id }, { lastUsedAt: new Date() });
+
+    const populatedCart = await Cart.findById(cart._id).populate({
+      path: "products.product",
+    });
+
+    res.status(200).json({
+      message:
+        result.skipped.length > 0
+          ? "Some products could not be added to the cart"
+          : "Saved cart loaded into your cart",
+      cart: populatedCart,
+      ...result,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
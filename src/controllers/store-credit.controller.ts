@@ -0,0 +1,327 @@
+import { NextFunction, Request, Response } from "express";
+import CreditEntry from "../models/credit-entry.model";
+import GiftCard from "../models/gift-card.model";
+import User from "../models/user.model";
+import { CustomError } from "../middlewares/error";
+import { checkPermission } from "../helpers/authHelper";
+import { validateInput } from "../utils/validateInput";
+import {
+  addCredit,
+  generateGiftCardCode,
+  getCreditBalance,
+  redeemGiftCard,
+  spendCredit,
+} from "../services/store-credit.service";
+
+// Helper to load a customer's balance and ledger, newest first
+const getLedger = async (userId: string) => {
+  const now = new Date();
+  const [balance, entries] = await Promise.all([
+    getCreditBalance(userId, now),
+    CreditEntry.find({ userId })
+      .select("-allocations")
+      .populate("orderId", "orderNumber")
+      .populate("ticketId", "ticketId subject")
+      .populate("createdBy", "name email")
+      .sort({ createdAt: -1 })
+      .lean(),
+  ]);
+
+  return {
+    balance,
+    entries: entries.map((entry) => ({
+      ...entry,
+      expired:
+        entry.type === "credit" &&
+        entry.remaining > 0 &&
+        !!entry.expiresAt &&
+        entry.expiresAt <= now,
+    })),
+  };
+};
+
+// *********************************************************
+// ************ Retrieve Store Credit **********************
+// *********************************************************
+export const getStoreCredit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { userId: customerId } = req.query;
+
+    // Staff can look up any customer's ledger
+    if (customerId && customerId !== userId) {
+      const permissionCheck = await checkPermission(userId, "users", 1);
+      if (!permissionCheck) {
+        throw new CustomError(403, "Permission denied");
+      }
+    }
+
+    const ledger = await getLedger(String(customerId || userId));
+
+    res.status(200).json({ data: ledger });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Add or Remove Store Credit (Admin) *********
+// *********************************************************
+export const adjustStoreCredit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { userId: customerId } = req.query;
+    const { type, amount, reason, expiresAt, orderId, ticketId } = req.body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "users", 2);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+    if (!customerId) {
+      throw new CustomError(400, "userId is required in query parameters");
+    }
+
+    const customer = await User.exists({ _id: customerId });
+    if (!customer) {
+      throw new CustomError(404, "User not found");
+    }
+
+    if (type === "credit") {
+      await addCredit({
+        userId: String(customerId),
+        amount,
+        source: "support",
+        reason,
+        expiresAt: expiresAt ?? null,
+        orderId: orderId ?? null,
+        ticketId: ticketId ?? null,
+        createdBy: userId,
+      });
+    } else {
+      const balance = await getCreditBalance(String(customerId));
+      if (balance < amount) {
+        throw new CustomError(
+          400,
+          `The customer's balance is only $${balance}`
+        );
+      }
+      await spendCredit(String(customerId), amount, {
+        source: "support",
+        reason,
+        orderId: orderId ?? null,
+        ticketId: ticketId ?? null,
+        createdBy: userId,
+      });
+    }
+
+    const ledger = await getLedger(String(customerId));
+
+    res.status(201).json({
+      message:
+        type === "credit" ? "Store credit added" : "Store credit removed",
+      data: ledger,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Redeem a Gift Card *************************
+// *********************************************************
+export const redeemGiftCardCode = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { code } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const credit = await redeemGiftCard(code, userId);
+    const ledger = await getLedger(userId);
+
+    res.status(200).json({
+      message: `$${credit.amount} added to your store credit`,
+      data: ledger,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Create Gift Cards (Admin) ******************
+// *********************************************************
+export const createGiftCards = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { amount, quantity = 1, expiresAt, creditValidDays, note } = req.body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 0);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    // Codes already in use are drawn again
+    const codes = new Set<string>();
+    while (codes.size < quantity) {
+      while (codes.size < quantity) codes.add(generateGiftCardCode());
+      const taken = await GiftCard.distinct("code", {
+        code: { $in: [...codes] },
+      });
+      taken.forEach((code) => codes.delete(code));
+    }
+
+    const giftCards = await GiftCard.insertMany(
+      [...codes].map((code) => ({
+        code,
+        amount,
+        expiresAt: expiresAt ?? null,
+        creditValidDays: creditValidDays ?? null,
+        note: note ?? "",
+        createdBy: userId,
+      }))
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `${giftCards.length} gift cards created`,
+      data: giftCards,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Retrieve Gift Cards (Admin) ****************
+// *********************************************************
+export const getGiftCards = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id, status, search } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 1);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    if (id) {
+      const giftCard = await GiftCard.findById(id)
+        .populate("redeemedBy", "name email")
+        .populate("createdBy", "name email")
+        .lean();
+      if (!giftCard) {
+        throw new CustomError(404, "Gift card not found");
+      }
+      return res.status(200).json({ data: giftCard });
+    }
+
+    const filter: Record<string, any> = {};
+    if (status) filter.status = status;
+    if (search) {
+      filter.code = { $regex: String(search), $options: "i" };
+    }
+
+    const giftCards = await GiftCard.find(filter)
+      .populate("redeemedBy", "name email")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.status(200).json({ data: giftCards, count: giftCards.length });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Update a Gift Card (Admin) *****************
+// *********************************************************
+export const updateGiftCard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+    const { status, expiresAt, note } = req.body;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "coupons", 2);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+    if (!id) {
+      throw new CustomError(400, "Gift card ID is required in query parameters");
+    }
+
+    // Redeemed cards already became credit and can't change
+    const giftCard = await GiftCard.findOneAndUpdate(
+      { _id: id, status: { $ne: "Redeemed" } },
+      {
+        ...(status !== undefined && { status }),
+        ...(expiresAt !== undefined && { expiresAt }),
+        ...(note !== undefined && { note }),
+      },
+      { new: true }
+    );
+    if (!giftCard) {
+      const exists = await GiftCard.exists({ _id: id });
+      throw exists
+        ? new CustomError(400, "Redeemed gift cards cannot be changed")
+        : new CustomError(404, "Gift card not found");
+    }
+
+    res.status(200).json({
+      message: "Gift card updated successfully",
+      data: giftCard,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
@@ -0,0 +1,410 @@
+import { NextFunction, Request, Response } from "express";
+import { Types } from "mongoose";
+import Subscription from "../models/subscription.model";
+import Order from "../models/orderModel";
+import { CustomError } from "../middlewares/error";
+import { checkPermission } from "../helpers/authHelper";
+import { validateInput } from "../utils/validateInput";
+import { getPaymentProvider } from "../services/payment-providers";
+import { nextSequenceNumber } from "../services/sequence.service";
+import { createInvoice } from "./invoice.controller";
+import {
+  sendAdminPaymentReceivedEmail,
+  sendPaymentConfirmationEmail,
+} from "../utils/mailer";
+import {
+  PaymentProviderName,
+  PaymentWebhookEvent,
+} from "../types/payment.types";
+import { SubscriptionStatus } from "../types/subscription.types";
+
+// Helper to mark a subscription active once its first payment succeeds
+export const activateSubscription = async (
+  subscriptionId: Types.ObjectId,
+  providerSubscriptionId: string
+): Promise<void> => {
+  const subscription = await Subscription.findOne({
+    _id: subscriptionId,
+    status: "Incomplete",
+  });
+  if (!subscription) return;
+
+  const providerSubscription = await getPaymentProvider(
+    subscription.paymentMethod
+  ).getSubscription(providerSubscriptionId);
+
+  await Subscription.updateOne(
+    { _id: subscriptionId, status: "Incomplete" },
+    {
+      providerSubscriptionId,
+      status: "Active",
+      currentPeriodEnd: providerSubscription.currentPeriodEnd,
+    }
+  );
+};
+
+// Helper to create the order and invoice for a paid renewal.
+// Renewal orders are keyed by the provider invoice, so redelivered
+// events do not create duplicates.
+export const renewSubscription = async (
+  providerName: PaymentProviderName,
+  event: PaymentWebhookEvent
+): Promise<void> => {
+  if (!event.subscriptionId || !event.paymentId) return;
+
+  const subscription = await Subscription.findOne({
+    providerSubscriptionId: event.subscriptionId,
+  });
+  if (!subscription) {
+    throw new CustomError(
+      404,
+      `Subscription ${event.subscriptionId} not found for renewal`
+    );
+  }
+
+  const existingOrder = await Order.exists({ paymentId: event.paymentId });
+  if (existingOrder) return;
+
+  // Tax details and form answers follow the order that started the subscription
+  const initialOrder = await Order.findById(subscription.orderId)
+    .select("taxRegime reverseCharge billingAddress customerTaxId products")
+    .lean();
+  const initialItem = initialOrder?.products.find(
+    (p) => p.product.toString() === subscription.product.toString()
+  );
+
+  const provider = getPaymentProvider(providerName);
+  const transactionId =
+    event.transactionId ??
+    (await provider.resolveTransactionId(event.paymentId));
+
+  const renewalOrder = new Order({
+    orderNumber: await nextSequenceNumber("order"),
+    userId: subscription.userId,
+    products: [
+      {
+        product: subscription.product,
+        wordCount: subscription.wordCount,
+        quantity: subscription.quantity,
+        additionalInfo: subscription.additionalInfo,
+        addOns: initialItem?.addOns ?? [],
+        formId: initialItem?.formId ?? null,
+        formVersion: initialItem?.formVersion ?? null,
+        formResponses: initialItem?.formResponses ?? [],
+        totalPrice: subscription.amount,
+      },
+    ],
+    totalQuantity: subscription.quantity,
+    totalPrice: subscription.amount,
+    couponDiscount: 0,
+    taxRegime: initialOrder?.taxRegime ?? "None",
+    taxLines: subscription.taxLines,
+    taxAmount: subscription.taxAmount,
+    reverseCharge: initialOrder?.reverseCharge ?? false,
+    billingAddress: initialOrder?.billingAddress ?? null,
+    customerTaxId: initialOrder?.customerTaxId ?? null,
+    finalPrice: Number((subscription.amount + subscription.taxAmount).toFixed(2)),
+    paymentId: event.paymentId,
+    transactionId,
+    paymentStatus: "Paid",
+    paymentMethod: providerName,
+    currency: subscription.currency,
+    exchangeRate: subscription.exchangeRate,
+    paymentDate: Date.now(),
+    subscriptionId: subscription._id,
+    statusHistory: [
+      {
+        from: null,
+        to: "Pending",
+        changedBy: null,
+        note: "Subscription renewal",
+        changedAt: new Date(),
+      },
+    ],
+  });
+  await renewalOrder.save();
+
+  await createInvoice(renewalOrder._id.toString(), providerName);
+
+  const providerSubscription = await provider.getSubscription(
+    event.subscriptionId
+  );
+  await Subscription.findByIdAndUpdate(subscription._id, {
+    status: subscription.status === "Incomplete" ? "Active" : subscription.status,
+    currentPeriodEnd: providerSubscription.currentPeriodEnd,
+    lastRenewedAt: new Date(),
+    $inc: { renewalCount: 1 },
+  });
+
+  Promise.all([
+    sendPaymentConfirmationEmail(renewalOrder._id.toString()),
+    sendAdminPaymentReceivedEmail(renewalOrder._id.toString()),
+  ]).catch((err) => console.error("Email sending failed:", err));
+};
+
+// Helper to record a subscription that ended on the provider side
+export const endSubscription = async (
+  event: PaymentWebhookEvent
+): Promise<void> => {
+  if (!event.subscriptionId) return;
+
+  await Subscription.updateOne(
+    { providerSubscriptionId: event.subscriptionId, status: { $ne: "Cancelled" } },
+    { status: "Cancelled", cancelledAt: new Date() }
+  );
+};
+
+// Helper to load a subscription the caller may manage: its owner, or
+// staff with order update permission
+const findManageableSubscription = async (
+  subscriptionId: unknown,
+  userId: string
+) => {
+  if (!subscriptionId) {
+    throw new CustomError(400, "subscriptionId is required");
+  }
+
+  const subscription = await Subscription.findById(subscriptionId);
+  if (!subscription) {
+    throw new CustomError(404, "Subscription not found");
+  }
+
+  if (subscription.userId.toString() !== userId) {
+    const permissionCheck = await checkPermission(userId, "orders", 3).catch(
+      () => false
+    );
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+  }
+
+  if (!subscription.providerSubscriptionId) {
+    throw new CustomError(400, "Subscription has not been activated yet");
+  }
+
+  return subscription;
+};
+
+// Helper to ensure a subscription is in one of the expected states
+const assertSubscriptionStatus = (
+  status: SubscriptionStatus,
+  allowed: SubscriptionStatus[],
+  action: string
+) => {
+  if (!allowed.includes(status)) {
+    throw new CustomError(400, `Cannot ${action} a subscription that is ${status}`);
+  }
+};
+
+// *********************************************************
+// ************ Retrieve the User's Subscriptions **********
+// *********************************************************
+export const getUserSubscriptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+
+    const subscriptions = await Subscription.find({ userId })
+      .populate("product", "name slug featuredImage pricingType")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.status(200).json({ data: subscriptions, count: subscriptions.length });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error fetching subscriptions")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Retrieve All Subscriptions (Admin) *********
+// *********************************************************
+export const getSubscriptions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id, status, customerId } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "orders", 2);
+    if (!permissionCheck) {
+      return res.status(403).json({ message: "Permission denied" });
+    }
+
+    if (id) {
+      const subscription = await Subscription.findById(id)
+        .populate("userId", "name email")
+        .populate("product", "name slug pricingType")
+        .populate("orderId", "orderNumber")
+        .lean();
+      if (!subscription) {
+        throw new CustomError(404, "Subscription not found");
+      }
+      const orders = await Order.find({ subscriptionId: id })
+        .select("orderNumber finalPrice paymentStatus status createdAt")
+        .sort({ createdAt: -1 })
+        .lean();
+      return res.status(200).json({ data: { ...subscription, orders } });
+    }
+
+    const filter: Record<string, any> = {};
+    if (status) filter.status = status;
+    if (customerId) filter.userId = customerId;
+
+    const subscriptions = await Subscription.find(filter)
+      .populate("userId", "name email")
+      .populate("product", "name slug pricingType")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    res.status(200).json({ data: subscriptions, count: subscriptions.length });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error fetching subscriptions")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Pause a Subscription ***********************
+// *********************************************************
+export const pauseSubscription = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { subscriptionId } = req.query;
+
+    const subscription = await findManageableSubscription(
+      subscriptionId,
+      userId
+    );
+    assertSubscriptionStatus(subscription.status, ["Active"], "pause");
+
+    await getPaymentProvider(subscription.paymentMethod).pauseSubscription(
+      subscription.providerSubscriptionId!
+    );
+
+    subscription.status = "Paused";
+    subscription.pausedAt = new Date();
+    await subscription.save();
+
+    res.status(200).json({
+      message: "Subscription paused successfully",
+      data: subscription,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error pausing subscription")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Resume a Subscription **********************
+// *********************************************************
+export const resumeSubscription = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { subscriptionId } = req.query;
+
+    const subscription = await findManageableSubscription(
+      subscriptionId,
+      userId
+    );
+    assertSubscriptionStatus(subscription.status, ["Paused"], "resume");
+
+    await getPaymentProvider(subscription.paymentMethod).resumeSubscription(
+      subscription.providerSubscriptionId!
+    );
+
+    subscription.status = "Active";
+    subscription.pausedAt = null;
+    await subscription.save();
+
+    res.status(200).json({
+      message: "Subscription resumed successfully",
+      data: subscription,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error resuming subscription")
+    );
+  }
+};
+
+// *********************************************************
+// ************ Cancel a Subscription **********************
+// *********************************************************
+export const cancelSubscription = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { subscriptionId } = req.query;
+    const { atPeriodEnd = true } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const subscription = await findManageableSubscription(
+      subscriptionId,
+      userId
+    );
+    assertSubscriptionStatus(
+      subscription.status,
+      ["Active", "Paused"],
+      "cancel"
+    );
+
+    await getPaymentProvider(subscription.paymentMethod).cancelSubscription(
+      subscription.providerSubscriptionId!,
+      atPeriodEnd
+    );
+
+    // A cancellation at period end is completed by the provider's webhook
+    if (atPeriodEnd) {
+      subscription.cancelAtPeriodEnd = true;
+    } else {
+      subscription.status = "Cancelled";
+      subscription.cancelledAt = new Date();
+    }
+    await subscription.save();
+
+    res.status(200).json({
+      message: atPeriodEnd
+        ? "Subscription will be cancelled at the end of the current period"
+        : "Subscription cancelled successfully",
+      data: subscription,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error cancelling subscription")
+    );
+  }
+};
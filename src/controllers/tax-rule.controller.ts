@@ -0,0 +1,187 @@
+import { NextFunction, Request, Response } from "express";
+import TaxRule from "../models/tax-rule.model";
+import { CustomError } from "../middlewares/error";
+import { checkPermission } from "../helpers/authHelper";
+import { validateInput } from "../utils/validateInput";
+
+// *********************************************************
+// ******************* Create Tax Rule *********************
+// *********************************************************
+export const createTaxRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, body } = req;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "invoices", 1);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const existingRule = await TaxRule.exists({
+      country: String(body.country).toUpperCase(),
+    });
+    if (existingRule) {
+      throw new CustomError(409, "A tax rule already exists for this country");
+    }
+
+    const newTaxRule = await TaxRule.create({
+      country: body.country,
+      regime: body.regime,
+      rate: body.rate,
+      reverseChargeWithTaxId: body.reverseChargeWithTaxId,
+      status: body.status,
+      createdBy: userId,
+    });
+
+    res.status(201).json({
+      message: "Tax rule created successfully",
+      data: newTaxRule,
+    });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error creating tax rule")
+    );
+  }
+};
+
+// *********************************************************
+// ******************* Read Tax Rules **********************
+// *********************************************************
+export const getTaxRules = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id, country } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "invoices", 2);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    if (id) {
+      const taxRule = await TaxRule.findById(id).lean();
+      if (!taxRule) {
+        throw new CustomError(404, "Tax rule not found");
+      }
+      return res.status(200).json({ data: taxRule });
+    }
+
+    const filter: Record<string, any> = {};
+    if (country) filter.country = String(country).toUpperCase();
+
+    const taxRules = await TaxRule.find(filter).sort({ country: 1 }).lean();
+    res.status(200).json({ data: taxRules, count: taxRules.length });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error fetching tax rules")
+    );
+  }
+};
+
+// *********************************************************
+// ******************* Update Tax Rule *********************
+// *********************************************************
+export const updateTaxRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, body } = req;
+    const { id } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "invoices", 3);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const { country, regime, rate, reverseChargeWithTaxId, status } = body;
+    const updatedTaxRule = await TaxRule.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          ...(country !== undefined && { country }),
+          ...(regime !== undefined && { regime }),
+          ...(rate !== undefined && { rate }),
+          ...(reverseChargeWithTaxId !== undefined && {
+            reverseChargeWithTaxId,
+          }),
+          ...(status !== undefined && { status }),
+          updatedBy: userId,
+        },
+      },
+      { new: true, runValidators: true }
+    );
+    if (!updatedTaxRule) {
+      throw new CustomError(404, "Tax rule not found");
+    }
+
+    res.status(200).json({
+      message: "Tax rule updated successfully",
+      data: updatedTaxRule,
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return next(
+        new CustomError(409, "A tax rule already exists for this country")
+      );
+    }
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error updating tax rule")
+    );
+  }
+};
+
+// *********************************************************
+// ******************* Delete Tax Rule *********************
+// *********************************************************
+export const deleteTaxRule = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "invoices", 4);
+    if (!permissionCheck) {
+      throw new CustomError(403, "Permission denied");
+    }
+
+    const deletedTaxRule = await TaxRule.findByIdAndDelete(id);
+    if (!deletedTaxRule) {
+      throw new CustomError(404, "Tax rule not found");
+    }
+
+    res.status(200).json({ message: "Tax rule deleted successfully" });
+  } catch (error) {
+    next(
+      error instanceof CustomError
+        ? error
+        : new CustomError(500, "Error deleting tax rule")
+    );
+  }
+};
@@ -92,7 +92,14 @@ const updateUser = async (req: Request, res: Response, next: NextFunction) => {
         );
       } else {
         // Step 3: If no permissions, allow self-update with limited fields
-        allowedFields = ["name", "userName", "contact", "image"];
+        allowedFields = [
+          "name",
+          "userName",
+          "contact",
+          "image",
+          "billingAddress",
+          "taxId",
+        ];
         if (userIdStr !== targetIdStr) {
           throw new CustomError(403, "You can only update your own account");
         }
@@ -0,0 +1,101 @@
+import { NextFunction, Request, Response } from "express";
+import WebhookEvent from "../models/webhook-event.model";
+import { CustomError } from "../middlewares/error";
+import { checkPermission } from "../helpers/authHelper";
+import { runWebhookEvent } from "../services/webhook-event.service";
+import { processPaymentEvent } from "./order.controller";
+
+// *********************************************************
+// ************ Retrieve Webhook Events (Admin) ************
+// *********************************************************
+export const getWebhookEvents = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id, provider, status, type, paymentId } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "orders", 2);
+    if (!permissionCheck) {
+      return res.status(403).json({ message: "Permission denied" });
+    }
+
+    if (id) {
+      const event = await WebhookEvent.findById(id).lean();
+      if (!event) {
+        return res.status(404).json({ message: "Webhook event not found." });
+      }
+      return res.status(200).json({ data: event });
+    }
+
+    const filter: Record<string, any> = {};
+    if (provider) filter.provider = provider;
+    if (status) filter.status = status;
+    if (type) filter.type = type;
+    if (paymentId) filter.paymentId = paymentId;
+
+    const events = await WebhookEvent.find(filter)
+      .select("-payload")
+      .sort({ createdAt: -1 })
+      .limit(500)
+      .lean();
+
+    res.status(200).json({ data: events, count: events.length });
+  } catch (error) {
+    if (error instanceof Error) {
+      next(new CustomError(500, error.message));
+    } else {
+      next(new CustomError(500, "An unknown error occurred."));
+    }
+  }
+};
+
+// *********************************************************
+// ************ Replay a Webhook Event (Admin) *************
+// *********************************************************
+export const replayWebhookEvent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { id } = req.query;
+
+    // Check Permission
+    const permissionCheck = await checkPermission(userId, "orders", 3);
+    if (!permissionCheck) {
+      return res.status(403).json({ message: "Permission denied" });
+    }
+
+    const event = await WebhookEvent.findById(id);
+    if (!event) {
+      return res.status(404).json({ message: "Webhook event not found." });
+    }
+
+    const replayed = await runWebhookEvent(event, processPaymentEvent, {
+      force: true,
+    });
+    if (!replayed) {
+      return res
+        .status(409)
+        .json({ message: "Webhook event is already being processed." });
+    }
+
+    const updatedEvent = await WebhookEvent.findById(id).select("-payload");
+
+    res.status(200).json({
+      message: "Webhook event replayed successfully.",
+      data: updatedEvent,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      next(new CustomError(500, error.message));
+    } else {
+      next(new CustomError(500, "An unknown error occurred."));
+    }
+  }
+};
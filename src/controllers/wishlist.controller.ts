@@ -0,0 +1,213 @@
+import { NextFunction, Request, Response } from "express";
+import User from "../models/user.model";
+import Cart from "../models/cartModel";
+import Product from "../models/product.model";
+import { CustomError } from "../middlewares/error";
+import { validateInput } from "../utils/validateInput";
+import { addLinesToCart } from "./cart.controller";
+
+const WISHLIST_PRODUCT_FIELDS =
+  "name slug featuredImage pricePerUnit pricingType minimumQuantity minimumWords status isFreeProduct";
+
+// Helper to load the caller's wishlist with its products
+const getPopulatedWishlist = async (userId: string) => {
+  const user = await User.findById(userId)
+    .select("wishlist")
+    .populate("wishlist.productId", WISHLIST_PRODUCT_FIELDS)
+    .lean();
+  if (!user) {
+    throw new CustomError(404, "User not found");
+  }
+
+  // Products deleted since they were saved are left out
+  return (user.wishlist ?? [])
+    .filter((item) => item.productId)
+    .sort((a, b) => b.dateAdded.getTime() - a.dateAdded.getTime());
+};
+
+// *********************************************************
+// ************ Retrieve the User's Wishlist ***************
+// *********************************************************
+export const getWishlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+
+    const wishlist = await getPopulatedWishlist(userId);
+
+    res.status(200).json({ data: wishlist, count: wishlist.length });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Add a Product to the Wishlist **************
+// *********************************************************
+export const addToWishlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { productId, notifyBackInStock, notifyPriceDrop } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const product = await Product.exists({
+      _id: productId,
+      status: { $ne: "archived" },
+    });
+    if (!product) {
+      throw new CustomError(404, "Product not found");
+    }
+
+    // Saving a product again only updates its alert preferences
+    const saved = await User.exists({
+      _id: userId,
+      "wishlist.productId": productId,
+    });
+    if (saved) {
+      await User.updateOne(
+        { _id: userId, "wishlist.productId": productId },
+        {
+          $set: {
+            ...(notifyBackInStock !== undefined && {
+              "wishlist.$.notifyBackInStock": Boolean(notifyBackInStock),
+            }),
+            ...(notifyPriceDrop !== undefined && {
+              "wishlist.$.notifyPriceDrop": Boolean(notifyPriceDrop),
+            }),
+          },
+        }
+      );
+    } else {
+      await User.updateOne(
+        { _id: userId, "wishlist.productId": { $ne: productId } },
+        {
+          $push: {
+            wishlist: {
+              productId,
+              dateAdded: new Date(),
+              notifyBackInStock: Boolean(notifyBackInStock),
+              notifyPriceDrop: Boolean(notifyPriceDrop),
+            },
+          },
+        }
+      );
+    }
+
+    const wishlist = await getPopulatedWishlist(userId);
+
+    res.status(saved ? 200 : 201).json({
+      message: saved ? "Wishlist alerts updated" : "Product added to wishlist",
+      data: wishlist,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Remove a Product from the Wishlist *********
+// *********************************************************
+export const removeFromWishlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { productId } = req.query;
+
+    if (!productId) {
+      throw new CustomError(400, "productId is required");
+    }
+
+    const result = await User.updateOne(
+      { _id: userId },
+      { $pull: { wishlist: { productId } } }
+    );
+    if (result.modifiedCount === 0) {
+      throw new CustomError(404, "Product not found in wishlist");
+    }
+
+    const wishlist = await getPopulatedWishlist(userId);
+
+    res.status(200).json({
+      message: "Product removed from wishlist",
+      data: wishlist,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
+
+// *********************************************************
+// ************ Move a Wishlist Product to the Cart ********
+// *********************************************************
+export const moveWishlistItemToCart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId } = req;
+    const { productId, ...line } = req.body;
+
+    // Validate user input
+    if (!validateInput(req, res)) return;
+
+    const saved = await User.exists({
+      _id: userId,
+      "wishlist.productId": productId,
+    });
+    if (!saved) {
+      throw new CustomError(404, "Product not found in wishlist");
+    }
+
+    // The line is checked and priced like any other product added to the cart
+    const cart = await addLinesToCart({ userId }, userId, [
+      {
+        product: { _id: productId } as any,
+        quantity: line.quantity ?? 1,
+        wordCount: line.wordCount,
+        additionalInfo: line.additionalInfo,
+        formResponses: line.formResponses,
+        addOns: line.addOns,
+        totalPrice: 0,
+      },
+    ]);
+
+    await User.updateOne(
+      { _id: userId },
+      { $pull: { wishlist: { productId } } }
+    );
+
+    const [populatedCart, wishlist] = await Promise.all([
+      Cart.findById(cart._id).populate({ path: "products.product" }),
+      getPopulatedWishlist(userId),
+    ]);
+
+    res.status(200).json({
+      message: "Product moved to cart",
+      cart: populatedCart,
+      data: wishlist,
+    });
+  } catch (error: any) {
+    next(
+      error instanceof CustomError ? error : new CustomError(500, error.message)
+    );
+  }
+};
@@ -0,0 +1,32 @@
+import cron from 'node-cron';
+import {
+  detectAbandonedCarts,
+  endAbandonedCartCampaigns,
+  sendAbandonedCartReminders,
+} from '../services/abandoned-cart.service';
+
+const processAbandonedCarts = async () => {
+  try {
+    const ended = await endAbandonedCartCampaigns();
+    const detected = await detectAbandonedCarts();
+    const reminded = await sendAbandonedCartReminders();
+
+    if (ended > 0 || detected > 0 || reminded > 0) {
+      console.log(
+        `Detected ${detected} abandoned carts, sent ${reminded} reminders, ended ${ended} campaigns`
+      );
+    }
+  } catch (error) {
+    console.error('Error processing abandoned carts:', error);
+  }
+};
+
+export const abandonedCartsJob = cron.schedule(
+  '*/15 * * * *',
+  processAbandonedCarts,
+  {
+    scheduled: false,
+  }
+);
+
+export const runAbandonedCartsNow = processAbandonedCarts;
@@ -1,15 +1,37 @@
 import cron from 'node-cron';
 import Cart from '../models/cartModel';
+import AbandonedCart from '../models/abandoned-cart.model';
+import {
+  getCampaignLength,
+  UNCONTACTABLE_CART_HOURS,
+} from '../services/abandoned-cart.service';
 
+// Carts with a way to reach the customer are cleared when their abandoned
+// cart campaign ends. This job only clears carts nobody can be reminded
+// about, and contactable carts that never had a campaign (e.g. left before
+// campaigns started).
 const emptyExpiredCarts = async () => {
   try {
-    const expirationTime = new Date(Date.now() - 24 * 60 * 60 * 1000); 
+    const now = Date.now();
+    const uncontactableTime = new Date(
+      now - UNCONTACTABLE_CART_HOURS * 60 * 60 * 1000
+    );
+    const campaignTime = new Date(now - getCampaignLength() * 60 * 60 * 1000);
+
+    const activeCartIds = await AbandonedCart.distinct('cartId', {
+      status: 'Active',
+    });
     const cartsToEmpty = await Cart.find({
+      _id: { $nin: activeCartIds },
+      'products.0': { $exists: true },
       $or: [
-        { createdAt: { $lt: expirationTime } },
-        { updatedAt: { $lt: expirationTime } }
+        {
+          userId: null,
+          'guestContact.email': { $not: { $type: 'string' } },
+          updatedAt: { $lt: uncontactableTime },
+        },
+        { updatedAt: { $lt: campaignTime } },
       ],
-      'products.0': { $exists: true } 
     });
 
     for (const cart of cartsToEmpty) {
@@ -33,4 +55,4 @@ export const emptyCartJob = cron.schedule('0 * * * *', emptyExpiredCarts, {
   scheduled: false 
 });
 
-export const runEmptyExpiredCartsNow = emptyExpiredCarts;
\ No newline at end of file
+export const runEmptyExpiredCartsNow = emptyExpiredCarts;
@@ -0,0 +1,26 @@
+import cron from 'node-cron';
+import Coupon from '../models/coupon.model';
+
+// Coupons are kept once their window ends so orders can still reference
+// them; this job only marks them Expired. Redemption checks the window
+// itself, so a coupon is unusable even before the job runs.
+const expireCoupons = async () => {
+  try {
+    const result = await Coupon.updateMany(
+      { status: 'Active', endsAt: { $ne: null, $lte: new Date() } },
+      { status: 'Expired' }
+    );
+
+    if (result.modifiedCount > 0) {
+      console.log(`Marked ${result.modifiedCount} coupons expired`);
+    }
+  } catch (error) {
+    console.error('Error expiring coupons:', error);
+  }
+};
+
+export const expireCouponsJob = cron.schedule('0 * * * *', expireCoupons, {
+  scheduled: false,
+});
+
+export const runExpireCouponsNow = expireCoupons;
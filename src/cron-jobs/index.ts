@@ -0,0 +1,17 @@
+import { retryWebhookEventsJob } from './retry-webhook-events';
+import { invoiceRemindersJob } from './invoice-reminders';
+import { abandonedCartsJob } from './abandoned-carts';
+import { emptyCartJob } from './empty-cart';
+import { refreshExchangeRatesJob } from './refresh-exchange-rates';
+import { expireCouponsJob } from './expire-coupons';
+
+// Jobs are created stopped so importing them (e.g. for the run-now helpers)
+// does not schedule anything; the server starts them once the database is up
+export const startCronJobs = () => {
+  retryWebhookEventsJob.start();
+  invoiceRemindersJob.start();
+  abandonedCartsJob.start();
+  emptyCartJob.start();
+  refreshExchangeRatesJob.start();
+  expireCouponsJob.start();
+};
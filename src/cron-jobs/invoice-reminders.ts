@@ -0,0 +1,30 @@
+import cron from 'node-cron';
+import {
+  markOverdueInvoices,
+  sendInvoiceReminders,
+} from '../services/invoice-reminder.service';
+
+const processInvoiceReminders = async () => {
+  try {
+    const overdue = await markOverdueInvoices();
+    const reminded = await sendInvoiceReminders();
+
+    if (overdue > 0 || reminded > 0) {
+      console.log(
+        `Marked ${overdue} invoices overdue, sent ${reminded} payment reminders`
+      );
+    }
+  } catch (error) {
+    console.error('Error processing invoice reminders:', error);
+  }
+};
+
+export const invoiceRemindersJob = cron.schedule(
+  '0 9 * * *',
+  processInvoiceReminders,
+  {
+    scheduled: false,
+  }
+);
+
+export const runInvoiceRemindersNow = processInvoiceReminders;
@@ -0,0 +1,17 @@
+import cron from 'node-cron';
+import { refreshExchangeRates } from '../services/currency.service';
+
+const refreshRates = async () => {
+  try {
+    const updated = await refreshExchangeRates();
+    console.log(`Refreshed ${updated} exchange rates`);
+  } catch (error) {
+    console.error('Error refreshing exchange rates:', error);
+  }
+};
+
+export const refreshExchangeRatesJob = cron.schedule('0 * * * *', refreshRates, {
+  scheduled: false,
+});
+
+export const runRefreshExchangeRatesNow = refreshRates;
@@ -0,0 +1,29 @@
+import cron from 'node-cron';
+import { retryFailedWebhookEvents } from '../services/webhook-event.service';
+import { processPaymentEvent } from '../controllers/order.controller';
+
+const retryWebhookEvents = async () => {
+  try {
+    const { retried, failed } = await retryFailedWebhookEvents(
+      processPaymentEvent
+    );
+
+    if (retried > 0 || failed > 0) {
+      console.log(
+        `Retried webhook events: ${retried} processed, ${failed} still failing`
+      );
+    }
+  } catch (error) {
+    console.error('Error retrying webhook events:', error);
+  }
+};
+
+export const retryWebhookEventsJob = cron.schedule(
+  '*/10 * * * *',
+  retryWebhookEvents,
+  {
+    scheduled: false,
+  }
+);
+
+export const runRetryWebhookEventsNow = retryWebhookEvents;
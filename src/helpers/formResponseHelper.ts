@@ -0,0 +1,194 @@
+import { CustomError } from "../middlewares/error";
+import {
+  getResolvedFields,
+  getVisibleFieldNames,
+  isEmptyAnswer,
+  resolveProductForm,
+} from "../services/product-form.service";
+import {
+  FormResponse,
+  FormResponseValue,
+  ProductTypes,
+  ResolvedFormField,
+  ValidatedFormResponses,
+} from "../types/productTypes";
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// Check text against the field's length and pattern rules
+const validateText = (field: ResolvedFormField, text: string): string[] => {
+  const errors: string[] = [];
+  if (field.minLength && text.length < field.minLength) {
+    errors.push(`${field.label} must be at least ${field.minLength} characters`);
+  }
+  if (field.maxLength && text.length > field.maxLength) {
+    errors.push(`${field.label} must be at most ${field.maxLength} characters`);
+  }
+  if (field.pattern) {
+    try {
+      if (!new RegExp(field.pattern).test(text)) {
+        errors.push(`${field.label} is not in the expected format`);
+      }
+    } catch (error) {
+      // A broken pattern is a form configuration problem, not the customer's
+      console.error(`Invalid validation pattern on field ${field.name}:`, error);
+    }
+  }
+  return errors;
+};
+
+// Check one answer against its field definition. Returns the value to store,
+// or the error messages.
+const validateFieldValue = (
+  field: ResolvedFormField,
+  value: unknown
+): { value?: FormResponseValue; errors: string[] } => {
+  // An unticked consent checkbox counts as unanswered
+  const unticked =
+    field.type === "checkbox" &&
+    field.options.length === 0 &&
+    (value === false || value === "false");
+  if (isEmptyAnswer(value) || unticked) {
+    return {
+      errors: field.required ? [`${field.label} is required`] : [],
+    };
+  }
+
+  if (Array.isArray(value) && !field.multiple) {
+    return { errors: [`${field.label} accepts a single value`] };
+  }
+  const values = Array.isArray(value) ? value : [value];
+  if (
+    values.some(
+      (v) =>
+        typeof v !== "string" && typeof v !== "number" && typeof v !== "boolean"
+    )
+  ) {
+    return { errors: [`${field.label} has an invalid value`] };
+  }
+  const texts = values.map((v) => String(v).trim());
+
+  switch (field.type) {
+    case "select":
+    case "multi-select":
+    case "checkbox": {
+      if (field.type === "checkbox" && field.options.length === 0) {
+        return texts[0] === "true"
+          ? { value: "true", errors: [] }
+          : { errors: [`${field.label} must be checked or left empty`] };
+      }
+      const allowed = new Set(field.options.map((option) => option.value));
+      const invalid = texts.filter((text) => !allowed.has(text));
+      if (invalid.length > 0) {
+        return {
+          errors: [`${field.label} has an invalid option: ${invalid.join(", ")}`],
+        };
+      }
+      return { value: field.multiple ? texts : texts[0], errors: [] };
+    }
+
+    case "number": {
+      const number = Number(texts[0]);
+      if (texts[0] === "" || isNaN(number)) {
+        return { errors: [`${field.label} must be a number`] };
+      }
+      const errors: string[] = [];
+      if (field.min !== null && number < field.min) {
+        errors.push(`${field.label} must be at least ${field.min}`);
+      }
+      if (field.max !== null && number > field.max) {
+        errors.push(`${field.label} must be at most ${field.max}`);
+      }
+      return { value: String(number), errors };
+    }
+
+    case "date": {
+      const date = new Date(texts[0]);
+      if (isNaN(date.getTime())) {
+        return { errors: [`${field.label} must be a valid date`] };
+      }
+      return { value: date.toISOString().split("T")[0], errors: [] };
+    }
+
+    case "url":
+    case "file": {
+      // File answers are the URLs returned by the upload endpoint
+      if (texts.some((text) => !isHttpUrl(text))) {
+        return { errors: [`${field.label} must be a valid URL`] };
+      }
+      const errors = field.type === "url" ? validateText(field, texts[0]) : [];
+      return { value: field.multiple ? texts : texts[0], errors };
+    }
+
+    default: {
+      const errors = validateText(field, texts[0]);
+      return { value: texts[0], errors };
+    }
+  }
+};
+
+// Validate a cart line's answers against the form version its product is
+// pinned to, returning them in the shape stored on order lines. Answers to
+// fields hidden by the form's rules are dropped. Throws a 400 listing every
+// problem.
+export const validateFormResponses = async (
+  product: Pick<ProductTypes, "name" | "formId" | "formVersion">,
+  responses: Record<string, unknown> | null | undefined
+): Promise<ValidatedFormResponses> => {
+  const answers = responses ?? {};
+  const form = await resolveProductForm(product.formId, product.formVersion);
+
+  if (!form) {
+    if (Object.keys(answers).length > 0) {
+      throw new CustomError(
+        400,
+        `The ${product.name} does not accept form responses`
+      );
+    }
+    return { formId: null, formVersion: null, responses: [] };
+  }
+
+  const fields = getResolvedFields(form);
+  const fieldNames = new Set(fields.map((field) => field.name));
+  const errors = Object.keys(answers)
+    .filter((name) => !fieldNames.has(name))
+    .map((name) => `Unknown field: ${name}`);
+
+  const visible = getVisibleFieldNames(fields, answers);
+  const validated: FormResponse[] = [];
+  for (const field of fields) {
+    if (!visible.has(field.name)) continue;
+
+    const result = validateFieldValue(field, answers[field.name]);
+    errors.push(...result.errors);
+    if (result.value !== undefined) {
+      validated.push({
+        field: field.id,
+        name: field.name,
+        label: field.label,
+        value: result.value,
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new CustomError(
+      400,
+      `Invalid form responses for ${product.name}: ${errors.join("; ")}`
+    );
+  }
+  return { formId: form.formId, formVersion: form.version, responses: validated };
+};
+
+// Stored cart answers keyed by field name, as sent by the client
+export const toFormResponseMap = (
+  responses: FormResponse[]
+): Record<string, FormResponseValue> =>
+  Object.fromEntries(responses.map((response) => [response.name, response.value]));
@@ -0,0 +1,6 @@
+import { randomBytes } from "crypto";
+
+// Unguessable token identifying an anonymous shopper's cart
+export function generateGuestCartToken() {
+  return randomBytes(24).toString("hex");
+}
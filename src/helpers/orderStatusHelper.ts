@@ -0,0 +1,41 @@
+import { CustomError } from "../middlewares/error";
+import { OrderStatus, OrderTypes } from "../types/orderTypes";
+
+// Allowed next statuses for each order status. Cancelled is terminal.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  Pending: ["Processing", "Confirmed", "Cancelled"],
+  Processing: ["Confirmed", "Completed", "Cancelled"],
+  Confirmed: ["Processing", "Completed", "Cancelled"],
+  Completed: [],
+  Cancelled: [],
+};
+
+// Statuses that trigger a customer-facing email
+export const CUSTOMER_NOTIFIED_STATUSES: OrderStatus[] = [
+  "Confirmed",
+  "Completed",
+  "Cancelled",
+];
+
+export const validateOrderStatusTransition = (
+  order: Pick<OrderTypes, "status" | "paymentStatus">,
+  nextStatus: OrderStatus
+): void => {
+  const allowed = ORDER_STATUS_TRANSITIONS[order.status];
+  if (!allowed) {
+    throw new CustomError(400, `Invalid order status "${nextStatus}"`);
+  }
+
+  if (!allowed.includes(nextStatus)) {
+    throw new CustomError(
+      400,
+      allowed.length === 0
+        ? `Order is ${order.status} and can no longer change status`
+        : `Cannot change order status from ${order.status} to ${nextStatus}. Allowed: ${allowed.join(", ")}`
+    );
+  }
+
+  if (nextStatus === "Completed" && order.paymentStatus !== "Paid") {
+    throw new CustomError(400, "Only paid orders can be completed");
+  }
+};
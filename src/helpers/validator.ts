@@ -767,6 +767,59 @@ export const validateCreateProduct = [
     .custom((value) => value >= 0)
     .withMessage("Price must be greater than or equal to 0"),
 
+  check("currencyPrices")
+    .optional()
+    .isArray()
+    .withMessage("Currency prices should be an array"),
+
+  check("currencyPrices.*.currency")
+    .isIn(["usd", "inr", "eur", "gbp", "aud", "cad"])
+    .withMessage("Currency must be one of usd, inr, eur, gbp, aud or cad"),
+
+  check("currencyPrices.*.pricePerUnit")
+    .isFloat({ min: 0 })
+    .withMessage("Currency price must be a number greater than or equal to 0"),
+
+  check("priceTiers")
+    .optional()
+    .isArray()
+    .withMessage("Price tiers should be an array"),
+
+  check("priceTiers.*.minWordCount")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Tier minimum word count must be an integer of at least 0"),
+
+  check("priceTiers.*.minQuantity")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Tier minimum quantity must be an integer of at least 1"),
+
+  check("priceTiers.*.pricePerUnit")
+    .isFloat({ min: 0 })
+    .withMessage("Tier price must be a number greater than or equal to 0"),
+
+  check("addOns").optional().isArray().withMessage("Add-ons should be an array"),
+
+  check("addOns.*.name")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Add-on name is required"),
+
+  check("addOns.*.modifierType")
+    .isIn(["flat", "percentage"])
+    .withMessage("Add-on modifier type must be 'flat' or 'percentage'"),
+
+  check("addOns.*.modifierValue")
+    .isFloat({ min: 0 })
+    .withMessage("Add-on modifier must be a number greater than or equal to 0"),
+
+  check("addOns.*.status")
+    .optional()
+    .isIn(["active", "inactive"])
+    .withMessage("Add-on status must be 'active' or 'inactive'"),
+
   check("pricingType")
     .optional()
     .isIn(["perWord", "perPost", "perReview", "perMonth", "perQuantity"])
@@ -804,6 +857,11 @@ export const validateCreateProduct = [
 
   check("formId").optional().isMongoId().withMessage("Invalid form ID format"),
 
+  check("formVersion")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("Form version must be a positive integer"),
+
   check("metaTitle")
     .optional()
     .isString()
@@ -858,6 +916,11 @@ export const validateUpdateProduct = [
 
   check("formId").optional().isMongoId().withMessage("Invalid form ID format"),
 
+  check("formVersion")
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage("Form version must be a positive integer"),
+
   check("category")
     .optional()
     .isMongoId()
@@ -887,6 +950,59 @@ export const validateUpdateProduct = [
     .isNumeric()
     .withMessage("Quantity unit must be a number"),
 
+  check("currencyPrices")
+    .optional()
+    .isArray()
+    .withMessage("Currency prices should be an array"),
+
+  check("currencyPrices.*.currency")
+    .isIn(["usd", "inr", "eur", "gbp", "aud", "cad"])
+    .withMessage("Currency must be one of usd, inr, eur, gbp, aud or cad"),
+
+  check("currencyPrices.*.pricePerUnit")
+    .isFloat({ min: 0 })
+    .withMessage("Currency price must be a number greater than or equal to 0"),
+
+  check("priceTiers")
+    .optional()
+    .isArray()
+    .withMessage("Price tiers should be an array"),
+
+  check("priceTiers.*.minWordCount")
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage("Tier minimum word count must be an integer of at least 0"),
+
+  check("priceTiers.*.minQuantity")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Tier minimum quantity must be an integer of at least 1"),
+
+  check("priceTiers.*.pricePerUnit")
+    .isFloat({ min: 0 })
+    .withMessage("Tier price must be a number greater than or equal to 0"),
+
+  check("addOns").optional().isArray().withMessage("Add-ons should be an array"),
+
+  check("addOns.*.name")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Add-on name is required"),
+
+  check("addOns.*.modifierType")
+    .isIn(["flat", "percentage"])
+    .withMessage("Add-on modifier type must be 'flat' or 'percentage'"),
+
+  check("addOns.*.modifierValue")
+    .isFloat({ min: 0 })
+    .withMessage("Add-on modifier must be a number greater than or equal to 0"),
+
+  check("addOns.*.status")
+    .optional()
+    .isIn(["active", "inactive"])
+    .withMessage("Add-on status must be 'active' or 'inactive'"),
+
   check("pricingType")
     .optional()
     .isIn(["perWord", "perPost", "perReview", "perMonth", "perQuantity"])
@@ -1469,3 +1585,310 @@ export const validateUpdateCaseStudy = [
 export const validateDeleteCaseStudy = [
   query("id", "Case study ID is required").notEmpty().isMongoId(),
 ];
+
+// ******************** Tax ********************
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const validateCreateTaxRule = [
+  body("country")
+    .trim()
+    .isISO31661Alpha2()
+    .withMessage("Country must be a two-letter ISO country code"),
+
+  body("regime")
+    .isIn(["GST", "VAT"])
+    .withMessage("Regime must be one of: GST, VAT"),
+
+  body("rate")
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Rate must be a percentage between 0 and 100"),
+
+  body("reverseChargeWithTaxId")
+    .optional()
+    .isBoolean()
+    .withMessage("reverseChargeWithTaxId must be a boolean"),
+
+  body("status")
+    .optional()
+    .isIn(["active", "inactive"])
+    .withMessage("Status must be one of: active, inactive"),
+];
+
+export const validateUpdateTaxRule = [
+  query("id", "Tax rule ID is required").notEmpty().isMongoId(),
+
+  body("country")
+    .optional()
+    .trim()
+    .isISO31661Alpha2()
+    .withMessage("Country must be a two-letter ISO country code"),
+
+  body("regime")
+    .optional()
+    .isIn(["GST", "VAT"])
+    .withMessage("Regime must be one of: GST, VAT"),
+
+  body("rate")
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage("Rate must be a percentage between 0 and 100"),
+
+  body("reverseChargeWithTaxId")
+    .optional()
+    .isBoolean()
+    .withMessage("reverseChargeWithTaxId must be a boolean"),
+
+  body("status")
+    .optional()
+    .isIn(["active", "inactive"])
+    .withMessage("Status must be one of: active, inactive"),
+];
+
+export const validateBillingDetails = [
+  body("billingAddress")
+    .optional({ values: "null" })
+    .isObject()
+    .withMessage("Billing address must be an object"),
+
+  body(["billingAddress.line1", "billingAddress.city", "billingAddress.state"])
+    .if(body("billingAddress").isObject())
+    .trim()
+    .notEmpty()
+    .withMessage("Billing address line 1, city and state are required"),
+
+  body("billingAddress.postalCode")
+    .if(body("billingAddress").isObject())
+    .trim()
+    .notEmpty()
+    .withMessage("Postal code is required"),
+
+  body("billingAddress.country")
+    .if(body("billingAddress").isObject())
+    .trim()
+    .isISO31661Alpha2()
+    .withMessage("Country must be a two-letter ISO country code"),
+
+  body("taxId")
+    .optional({ values: "null" })
+    .trim()
+    .toUpperCase()
+    .custom((value, { req }) => {
+      // Indian tax IDs must be a valid GSTIN
+      const country = req.body.billingAddress?.country?.toUpperCase();
+      if (country === "IN" && value && !GSTIN_PATTERN.test(value)) {
+        throw new Error("Tax ID must be a valid GSTIN");
+      }
+      return true;
+    }),
+];
+
+// ********** Guest Carts ***********
+export const validateGuestContact = [
+  check("name").optional().isString().trim(),
+  check("email", "Email is required")
+    .isEmail()
+    .withMessage("Please enter a valid email")
+    .normalizeEmail()
+    .trim(),
+  check("contact")
+    .optional()
+    .custom((value) => {
+      if (!value) return true;
+      const phonePattern = /^\+?[1-9]\d{6,14}$/;
+      return phonePattern.test(value);
+    })
+    .withMessage("Contact must be a valid phone number"),
+];
+
+// ********** Wishlist ***********
+export const validateWishlistItem = [
+  body("productId", "productId is required")
+    .isMongoId()
+    .withMessage("productId must be a valid ID"),
+  body(["notifyBackInStock", "notifyPriceDrop"])
+    .optional()
+    .isBoolean()
+    .withMessage("Alert preferences must be true or false")
+    .toBoolean(),
+];
+
+export const validateWishlistMoveToCart = [
+  body("productId", "productId is required")
+    .isMongoId()
+    .withMessage("productId must be a valid ID"),
+  body("quantity")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be at least 1")
+    .toInt(),
+  body("wordCount")
+    .optional()
+    .isInt({ min: 100 })
+    .withMessage("Word count must be at least 100")
+    .toInt(),
+  body("addOns")
+    .optional()
+    .isArray()
+    .withMessage("Add-ons must be an array of IDs"),
+  body("addOns.*").isMongoId().withMessage("Add-ons must be an array of IDs"),
+  body("formResponses")
+    .optional()
+    .isObject()
+    .withMessage("Form responses must be an object"),
+];
+
+// ********** Saved Carts ***********
+export const validateCreateSavedCart = [
+  body("name", "Name is required")
+    .isString()
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage("Name must be at most 100 characters"),
+];
+
+export const validateUpdateSavedCart = [
+  body("name")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Name must be at most 100 characters"),
+  body("replaceWithCart")
+    .optional()
+    .isBoolean()
+    .withMessage("replaceWithCart must be true or false")
+    .toBoolean(),
+];
+
+// ********** Orders ***********
+export const validateCreateOrder = [
+  body("cartTotal")
+    .exists({ values: "null" })
+    .withMessage("cartTotal is required")
+    .isFloat({ min: 0 })
+    .withMessage("cartTotal must be a non-negative number")
+    .toFloat(),
+];
+
+// ********** Subscriptions ***********
+export const validateCancelSubscription = [
+  body("atPeriodEnd")
+    .optional()
+    .isBoolean()
+    .withMessage("atPeriodEnd must be true or false")
+    .toBoolean(),
+];
+
+// ********** Coupon Campaigns ***********
+export const validateCreateCouponCampaign = [
+  body("name", "Name is required")
+    .isString()
+    .trim()
+    .notEmpty()
+    .isLength({ max: 100 })
+    .withMessage("Name must be at most 100 characters"),
+  body("description").optional().isString().trim(),
+  body("prefix", "Prefix is required")
+    .isString()
+    .trim()
+    .matches(/^[A-Za-z0-9]{2,12}$/)
+    .withMessage("Prefix must be 2 to 12 letters or digits")
+    .toUpperCase(),
+  body("quantity", "Quantity is required")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10000")
+    .toInt(),
+  body("discountType", "Discount type is required").notEmpty(),
+];
+
+export const validateAddCampaignCodes = [
+  body("quantity", "Quantity is required")
+    .isInt({ min: 1, max: 10000 })
+    .withMessage("Quantity must be between 1 and 10000")
+    .toInt(),
+];
+
+export const validateUpdateCouponCampaign = [
+  body("name")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Name cannot be empty")
+    .isLength({ max: 100 })
+    .withMessage("Name must be at most 100 characters"),
+  body("description").optional().isString().trim(),
+  body("status")
+    .optional()
+    .isIn(["Active", "Inactive"])
+    .withMessage("Status must be Active or Inactive"),
+  body("prefix").not().exists().withMessage("Prefix cannot be changed"),
+];
+
+// ********** Store Credit and Gift Cards ***********
+export const validateAdjustStoreCredit = [
+  body("type")
+    .isIn(["credit", "debit"])
+    .withMessage("Type must be credit or debit"),
+  body("amount", "Amount is required")
+    .isFloat({ min: 0.01 })
+    .withMessage("Amount must be greater than 0")
+    .toFloat(),
+  body("reason", "Reason is required").isString().trim().notEmpty(),
+  body("expiresAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("expiresAt must be a valid date")
+    .toDate(),
+  body("orderId")
+    .optional({ values: "null" })
+    .isMongoId()
+    .withMessage("orderId must be a valid ID"),
+  body("ticketId")
+    .optional({ values: "null" })
+    .isMongoId()
+    .withMessage("ticketId must be a valid ID"),
+];
+
+export const validateRedeemGiftCard = [
+  body("code", "Gift card code is required").isString().trim().notEmpty(),
+];
+
+export const validateCreateGiftCards = [
+  body("amount", "Amount is required")
+    .isFloat({ min: 1 })
+    .withMessage("Amount must be at least 1")
+    .toFloat(),
+  body("quantity")
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage("Quantity must be between 1 and 500")
+    .toInt(),
+  body("expiresAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("expiresAt must be a valid date")
+    .toDate(),
+  body("creditValidDays")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("creditValidDays must be at least 1")
+    .toInt(),
+  body("note").optional().isString().trim(),
+];
+
+export const validateUpdateGiftCard = [
+  body("status")
+    .optional()
+    .isIn(["Active", "Disabled"])
+    .withMessage("Status must be Active or Disabled"),
+  body("expiresAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("expiresAt must be a valid date")
+    .toDate(),
+  body("note").optional().isString().trim(),
+];
@@ -0,0 +1,39 @@
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { NextFunction, Request, Response } from "express";
+import { CustomError } from "./error";
+
+declare global {
+  namespace Express {
+    interface Request {
+      guestCartToken?: string;
+    }
+  }
+}
+
+// Identify who owns the cart being worked on: a signed-in user when an
+// access token is sent, otherwise the guest holding the X-Cart-Token header.
+// Unlike verifyToken, requests without either are let through.
+const identifyCartOwner = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.headers["authorization"]?.split(" ")[1];
+
+  if (token) {
+    try {
+      const decoded = jwt.verify(
+        token,
+        process.env.JWT_SECRET as string
+      ) as JwtPayload;
+      req.userId = decoded._id;
+      return next();
+    } catch (error) {
+      return next(new CustomError(401, "Invalid or expired token"));
+    }
+  }
+
+  const cartToken = req.headers["x-cart-token"];
+  if (typeof cartToken === "string" && cartToken.trim()) {
+    req.guestCartToken = cartToken.trim();
+  }
+  next();
+};
+
+export default identifyCartOwner;
@@ -0,0 +1,57 @@
+import mongoose, { Schema } from "mongoose";
+import { AbandonedCartTypes } from "../types/abandoned-cart.types";
+
+const AbandonedCartSchema = new Schema<AbandonedCartTypes>(
+  {
+    cartId: { type: Schema.Types.ObjectId, ref: "Cart", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    guestToken: { type: String, default: null },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    name: { type: String, default: null },
+    products: [
+      {
+        _id: false,
+        product: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        wordCount: { type: Number },
+        quantity: { type: Number, required: true },
+        totalPrice: { type: Number, required: true },
+      },
+    ],
+    cartValue: { type: Number, required: true },
+    abandonedAt: { type: Date, required: true },
+    reminders: [
+      {
+        _id: false,
+        hoursAfter: { type: Number, required: true },
+        sentAt: { type: Date, required: true },
+        couponCode: { type: String, default: null },
+      },
+    ],
+    couponId: { type: Schema.Types.ObjectId, ref: "Coupon", default: null },
+    couponCode: { type: String, default: null },
+    status: {
+      type: String,
+      enum: ["Active", "Recovered", "Returned", "Expired"],
+      default: "Active",
+    },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null },
+    recoveredAt: { type: Date, default: null },
+    recoveredValue: { type: Number, default: 0 },
+    endedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// One running campaign per cart
+AbandonedCartSchema.index(
+  { cartId: 1 },
+  { unique: true, partialFilterExpression: { status: "Active" } }
+);
+AbandonedCartSchema.index({ status: 1, abandonedAt: 1 });
+
+const AbandonedCart = mongoose.model<AbandonedCartTypes>(
+  "AbandonedCart",
+  AbandonedCartSchema
+);
+
+export default AbandonedCart;
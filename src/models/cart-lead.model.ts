@@ -0,0 +1,24 @@
+import mongoose, { Schema } from "mongoose";
+import { CartLeadTypes } from "../types/cartTypes";
+
+const CartLeadSchema = new Schema<CartLeadTypes>(
+  {
+    guestToken: { type: String, required: true, unique: true },
+    name: { type: String, default: null },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    contact: { type: String, default: null },
+    products: [{ type: Schema.Types.ObjectId, ref: "Product" }],
+    cartTotal: { type: Number, default: 0 },
+    status: { type: String, enum: ["Open", "Converted"], default: "Open" },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    convertedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+CartLeadSchema.index({ email: 1 });
+CartLeadSchema.index({ status: 1, createdAt: -1 });
+
+const CartLead = mongoose.model<CartLeadTypes>("CartLead", CartLeadSchema);
+
+export default CartLead;
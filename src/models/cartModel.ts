@@ -4,13 +4,29 @@ import { CartTypes } from "../types/cartTypes";
 const CartSchema = new Schema<CartTypes>(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User" },
+    guestToken: { type: String, default: null },
+    guestContact: {
+      type: {
+        _id: false,
+        name: { type: String, default: null },
+        email: { type: String, required: true },
+        contact: { type: String, default: null },
+      },
+      default: null,
+    },
     products: [
       {
         product: { type: Schema.Types.ObjectId, ref: "Product", required: true },
         wordCount: { type: Number, min: 100 },
         quantity: { type: Number, required: true, min: 1 },
         additionalInfo: { type: String },
+        formResponses: { type: Schema.Types.Mixed, default: {} },
+        addOns: [{ type: Schema.Types.ObjectId }],
+        unitPrice: { type: Number },
         totalPrice: { type: Number, required: true },
+        quotedPrice: { type: Number, default: null },
+        priceChanged: { type: Boolean, default: false },
+        unavailable: { type: Boolean, default: false },
         addedAt: { type: Date, default: Date.now },
       },
     ],
@@ -21,6 +37,10 @@ const CartSchema = new Schema<CartTypes>(
 );
 
 CartSchema.index({ userId: 1 });
+CartSchema.index(
+  { guestToken: 1 },
+  { unique: true, partialFilterExpression: { guestToken: { $type: "string" } } }
+);
 
 const Cart = mongoose.model<CartTypes>("Cart", CartSchema);
 
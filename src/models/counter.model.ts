@@ -0,0 +1,17 @@
+import mongoose, { Schema } from "mongoose";
+import { CounterTypes } from "../types/counter.types";
+
+// Create the Counter schema
+const CounterSchema = new Schema<CounterTypes>(
+  {
+    key: { type: String, required: true, unique: true },
+    seq: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Counter = mongoose.model<CounterTypes>("Counter", CounterSchema);
+
+export default Counter;
@@ -0,0 +1,28 @@
+import mongoose, { Schema } from "mongoose";
+import { CouponCampaignTypes } from "../types/coupon.types";
+
+const CouponCampaignSchema = new Schema<CouponCampaignTypes>(
+  {
+    name: { type: String, required: true, unique: true, trim: true },
+    description: { type: String, default: "" },
+    prefix: { type: String, required: true, uppercase: true, trim: true },
+    // Checked against the coupon schema before any code is generated
+    rules: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      enum: ["Active", "Inactive"],
+      default: "Active",
+    },
+    codeCount: { type: Number, default: 0 },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+const CouponCampaign = mongoose.model<CouponCampaignTypes>(
+  "CouponCampaign",
+  CouponCampaignSchema
+);
+
+export default CouponCampaign;
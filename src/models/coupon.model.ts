@@ -22,12 +22,15 @@ const CouponSchema = new Schema<CouponTypes>(
     },
     discountType: {
       type: String,
-      enum: ["percentage", "flat"],
+      enum: ["percentage", "flat", "buyXGetY", "tieredSpend"],
       required: true,
     },
     discountValue: {
       type: Number,
-      required: true,
+      required: function (this: any) {
+        return ["percentage", "flat"].includes(this.discountType);
+      },
+      default: 0,
       min: 0,
       validate: {
         validator: function (this: any, value: number) {
@@ -40,6 +43,30 @@ const CouponSchema = new Schema<CouponTypes>(
       },
     },
 
+    buyQuantity: { type: Number, default: null, min: 1 },
+    getQuantity: { type: Number, default: null, min: 1 },
+    getDiscountPercent: { type: Number, default: 100, min: 0, max: 100 },
+    spendTiers: [
+      {
+        _id: false,
+        minSpend: { type: Number, required: true, min: 0 },
+        discountType: {
+          type: String,
+          enum: ["percentage", "flat"],
+          required: true,
+        },
+        discountValue: { type: Number, required: true, min: 0 },
+      },
+    ],
+    firstOrderOnly: { type: Boolean, default: false },
+    isAutomatic: { type: Boolean, default: false },
+    stacking: {
+      type: String,
+      enum: ["exclusive", "stackable"],
+      default: "exclusive",
+    },
+    priority: { type: Number, default: 0 },
+
     minOrderAmount: {
       type: Number,
       default: 1,
@@ -86,20 +113,68 @@ const CouponSchema = new Schema<CouponTypes>(
       {
         userId: { type: Schema.Types.ObjectId, ref: "User" },
         usageCount: { type: Number, default: 0 },
+        lastUsedAt: { type: Date, default: null },
+      },
+    ],
+    reservations: [
+      {
+        _id: false,
+        orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+        userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        reservedAt: { type: Date, default: Date.now },
       },
     ],
     status: {
       type: String,
       default: "Active",
     },
-    expiresAt: {
+    // Validity window; a coupon outside it is kept but cannot be used
+    startsAt: {
       type: Date,
       default: null,
     },
+    endsAt: {
+      type: Date,
+      default: null,
+    },
+    targetUsers: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
+    targetRoles: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Role" }],
+      default: [],
+    },
+    customerType: {
+      type: String,
+      enum: ["all", "new", "returning"],
+      default: "all",
+    },
+    emailDomains: {
+      type: [{ type: String, lowercase: true, trim: true }],
+      default: [],
+    },
+    targetEmails: {
+      type: [{ type: String, lowercase: true, trim: true }],
+      default: [],
+    },
+    // Coupons issued by abandoned cart campaigns have no staff author
+    source: {
+      type: String,
+      enum: ["manual", "abandonedCart", "campaign"],
+      default: "manual",
+    },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: "CouponCampaign",
+      default: null,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
-      required: true,
+      required: function (this: any) {
+        return this.source !== "abandonedCart";
+      },
     },
     updatedBy: {
       type: Schema.Types.ObjectId,
@@ -110,8 +185,9 @@ const CouponSchema = new Schema<CouponTypes>(
   { timestamps: true }
 );
 
-// Universal validation (works for both create & update)
-CouponSchema.pre("save", function () {
+// Universal validation (works for both create & update). Runs on validate so
+// codes inserted in bulk are checked too.
+CouponSchema.pre("validate", function () {
   // Validate productCategories
   if (
     this.couponApplicableOn === "productCategories" &&
@@ -130,6 +206,41 @@ CouponSchema.pre("save", function () {
     );
   }
 
+  // Validate the validity window
+  if (this.startsAt && this.endsAt && this.endsAt <= this.startsAt) {
+    throw new Error("End date must be after the start date");
+  }
+
+  // Domains are stored without a leading "@"
+  if (this.emailDomains?.length) {
+    this.emailDomains = this.emailDomains.map((domain) =>
+      domain.replace(/^@/, "")
+    );
+  }
+
+  // Validate promotion rules
+  if (
+    this.discountType === "buyXGetY" &&
+    (!this.buyQuantity || !this.getQuantity)
+  ) {
+    throw new Error("Buy and get quantities are required for buy X get Y");
+  }
+
+  if (
+    this.discountType === "tieredSpend" &&
+    (!this.spendTiers || this.spendTiers.length === 0)
+  ) {
+    throw new Error("At least one spend tier is required for tiered spend");
+  }
+
+  if (
+    this.spendTiers?.some(
+      (tier) => tier.discountType === "percentage" && tier.discountValue > 100
+    )
+  ) {
+    throw new Error("Percentage discount must be ≤ 100");
+  }
+
   // Validate specificProducts
   if (
     this.couponApplicableOn === "specificProducts" &&
@@ -149,5 +260,8 @@ CouponSchema.pre("save", function () {
   }
 });
 
-CouponSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+CouponSchema.index({ status: 1, endsAt: 1 });
+CouponSchema.index({ isAutomatic: 1, status: 1 });
+CouponSchema.index({ campaignId: 1 });
+CouponSchema.index({ "reservations.orderId": 1 });
 export default mongoose.model<CouponTypes>("Coupon", CouponSchema);
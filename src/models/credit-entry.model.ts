@@ -0,0 +1,45 @@
+import mongoose, { Schema } from "mongoose";
+import { CreditEntryTypes } from "../types/store-credit.types";
+
+const CreditEntrySchema = new Schema<CreditEntryTypes>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    type: { type: String, enum: ["credit", "debit"], required: true },
+    source: {
+      type: String,
+      enum: ["support", "giftCard", "order"],
+      required: true,
+    },
+    amount: { type: Number, required: true, min: 0.01 },
+    remaining: { type: Number, default: 0, min: 0 },
+    expiresAt: { type: Date, default: null },
+    reason: { type: String, required: true, trim: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null },
+    ticketId: { type: Schema.Types.ObjectId, ref: "Ticket", default: null },
+    giftCardId: { type: Schema.Types.ObjectId, ref: "GiftCard", default: null },
+    allocations: [
+      {
+        _id: false,
+        creditId: {
+          type: Schema.Types.ObjectId,
+          ref: "CreditEntry",
+          required: true,
+        },
+        amount: { type: Number, required: true },
+      },
+    ],
+    reversedAt: { type: Date, default: null },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true }
+);
+
+CreditEntrySchema.index({ userId: 1, type: 1, remaining: 1 });
+CreditEntrySchema.index({ orderId: 1 });
+
+const CreditEntry = mongoose.model<CreditEntryTypes>(
+  "CreditEntry",
+  CreditEntrySchema
+);
+
+export default CreditEntry;
@@ -0,0 +1,22 @@
+import mongoose, { Schema } from "mongoose";
+import { ExchangeRateTypes } from "../types/currency.types";
+
+// Create the ExchangeRate schema
+const ExchangeRateSchema = new Schema<ExchangeRateTypes>(
+  {
+    currency: { type: String, required: true, unique: true },
+    rate: { type: Number, required: true },
+    source: { type: String, required: true },
+    fetchedAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const ExchangeRate = mongoose.model<ExchangeRateTypes>(
+  "ExchangeRate",
+  ExchangeRateSchema
+);
+
+export default ExchangeRate;
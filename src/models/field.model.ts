@@ -1,7 +1,7 @@
 import mongoose, { Model, Schema } from "mongoose";
-import { Field } from "../types/productTypes";
+import { Field, FIELD_INPUT_TYPES } from "../types/productTypes";
 
-const OptionSchema = new Schema({
+export const OptionSchema = new Schema({
   value: { type: String, required: true },
   name: { type: String, required: true },
 });
@@ -10,14 +10,22 @@ const FieldSchema = new Schema<Field>(
   {
     name: { type: String, required: true },
     label: { type: String, required: true },
-    inputType: { type: String, required: true, default: "Text" },
+    inputType: {
+      type: String,
+      enum: FIELD_INPUT_TYPES,
+      required: true,
+      default: "text",
+    },
     inputMinLength: { type: Number, default: null },
     inputMaxLength: { type: Number, default: null },
+    inputMin: { type: Number, default: null },
+    inputMax: { type: Number, default: null },
     inputPlaceholder: { type: String, default: null },
     inputValidationPattern: { type: String, default: null },
     inputRequired: { type: Boolean, default: false },
     customClassName: { type: String, default: null },
     multipleOptions: [OptionSchema],
+    deletedAt: { type: Date, default: null },
   },
   { timestamps: true }
 );
@@ -0,0 +1,56 @@
+import mongoose, { Model, Schema } from "mongoose";
+import {
+  FIELD_INPUT_TYPES,
+  FormVersionField,
+  FormVersionTypes,
+} from "../types/productTypes";
+import { OptionSchema } from "./field.model";
+import { FieldConditionSchema, FormSectionSchema } from "./form.model";
+
+const FormVersionFieldSchema = new Schema<FormVersionField>(
+  {
+    field: {
+      type: Schema.Types.ObjectId,
+      ref: "ProductFormField",
+      required: true,
+    },
+    fieldOrder: { type: Number, required: true },
+    section: { type: String, default: null },
+    conditions: [FieldConditionSchema],
+    conditionLogic: { type: String, enum: ["all", "any"], default: "all" },
+    name: { type: String, required: true },
+    label: { type: String, required: true },
+    inputType: { type: String, enum: FIELD_INPUT_TYPES, required: true },
+    inputMinLength: { type: Number, default: null },
+    inputMaxLength: { type: Number, default: null },
+    inputMin: { type: Number, default: null },
+    inputMax: { type: Number, default: null },
+    inputPlaceholder: { type: String, default: null },
+    inputValidationPattern: { type: String, default: null },
+    inputRequired: { type: Boolean, default: false },
+    customClassName: { type: String, default: null },
+    multipleOptions: [OptionSchema],
+  },
+  { _id: false }
+);
+
+const FormVersionSchema = new Schema<FormVersionTypes>(
+  {
+    formId: { type: Schema.Types.ObjectId, ref: "ProductForm", required: true },
+    version: { type: Number, required: true },
+    title: { type: String, required: true },
+    sections: [FormSectionSchema],
+    fields: [FormVersionFieldSchema],
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+FormVersionSchema.index({ formId: 1, version: 1 }, { unique: true });
+
+const FormVersion: Model<FormVersionTypes> = mongoose.model<FormVersionTypes>(
+  "ProductFormVersion",
+  FormVersionSchema
+);
+
+export default FormVersion;
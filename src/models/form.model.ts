@@ -1,5 +1,37 @@
 import mongoose, { Model, Schema } from "mongoose";
-import { FormField, Form } from "../types/productTypes";
+import {
+  FieldCondition,
+  FormField,
+  FormSection,
+  Form,
+} from "../types/productTypes";
+
+export const FieldConditionSchema = new Schema<FieldCondition>(
+  {
+    field: {
+      type: Schema.Types.ObjectId,
+      ref: "ProductFormField",
+      required: true,
+    },
+    operator: {
+      type: String,
+      enum: ["equals", "notEquals", "in", "notIn", "isEmpty", "isNotEmpty"],
+      required: true,
+    },
+    value: { type: Schema.Types.Mixed, default: null },
+  },
+  { _id: false }
+);
+
+export const FormSectionSchema = new Schema<FormSection>(
+  {
+    key: { type: String, required: true },
+    title: { type: String, required: true },
+    description: { type: String, default: null },
+    sectionOrder: { type: Number, required: true, default: 1 },
+  },
+  { _id: false }
+);
 
 const FormFieldSchema = new Schema<FormField>({
   field: {
@@ -8,13 +40,18 @@ const FormFieldSchema = new Schema<FormField>({
     required: true,
   },
   fieldOrder: { type: Number, required: true, default: 1 },
+  section: { type: String, default: null },
+  conditions: [FieldConditionSchema],
+  conditionLogic: { type: String, enum: ["all", "any"], default: "all" },
 });
 
 const FormSchema = new Schema<Form>(
   {
     title: { type: String, required: true },
+    sections: [FormSectionSchema],
     fields: [FormFieldSchema],
     status: { type: String, enum: ["active", "inactive"], default: "active" },
+    currentVersion: { type: Number, default: 0 },
     createdBy: { type: Schema.Types.ObjectId, ref: "User" },
     updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
   },
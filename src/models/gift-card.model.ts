@@ -0,0 +1,31 @@
+import mongoose, { Schema } from "mongoose";
+import { GiftCardTypes } from "../types/store-credit.types";
+
+const GiftCardSchema = new Schema<GiftCardTypes>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    amount: { type: Number, required: true, min: 1 },
+    status: {
+      type: String,
+      enum: ["Active", "Redeemed", "Disabled"],
+      default: "Active",
+    },
+    expiresAt: { type: Date, default: null },
+    creditValidDays: { type: Number, default: null, min: 1 },
+    note: { type: String, default: "" },
+    redeemedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    redeemedAt: { type: Date, default: null },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true }
+);
+
+const GiftCard = mongoose.model<GiftCardTypes>("GiftCard", GiftCardSchema);
+
+export default GiftCard;
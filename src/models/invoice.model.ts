@@ -9,10 +9,52 @@ const InvoiceSchema = new Schema<InvoiceTypes>(
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     totalAmount: { type: Number, required: true },
     discountAmount: { type: Number, default: 0 },
+    taxRegime: {
+      type: String,
+      enum: ["GST", "VAT", "None"],
+      default: "None",
+    },
+    taxLines: [
+      {
+        _id: false,
+        type: {
+          type: String,
+          enum: ["CGST", "SGST", "IGST", "VAT"],
+          required: true,
+        },
+        rate: { type: Number, required: true },
+        amount: { type: Number, required: true },
+      },
+    ],
+    taxAmount: { type: Number, default: 0 },
+    reverseCharge: { type: Boolean, default: false },
+    billingAddress: {
+      type: new Schema(
+        {
+          line1: { type: String },
+          line2: { type: String },
+          city: { type: String },
+          state: { type: String },
+          postalCode: { type: String },
+          country: { type: String },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    customerTaxId: { type: String, default: null },
     finalAmount: { type: Number, required: true },
+    storeCreditAmount: { type: Number, default: 0 },
     status: {
       type: String,
-      enum: ["Unpaid", "Paid", "Overdue", "Cancelled"],
+      enum: [
+        "Unpaid",
+        "Paid",
+        "Overdue",
+        "Cancelled",
+        "Partially Credited",
+        "Credited",
+      ],
       default: "Unpaid",
     },
     dueDate: { type: Date, required: true },
@@ -23,7 +65,25 @@ const InvoiceSchema = new Schema<InvoiceTypes>(
       required: true,
     },
     paymentId: { type: String, default: null },
+    currency: { type: String, default: "usd" },
+    exchangeRate: { type: Number, default: 1 }, // Units of currency per USD
     zohoInvoiceId: { type: String, default: null },
+    credits: [
+      {
+        refundId: { type: String, required: true },
+        amount: { type: Number, required: true },
+        reason: { type: String },
+        issuedDate: { type: Date, default: Date.now },
+      },
+    ],
+    creditedAmount: { type: Number, default: 0 },
+    overdueAt: { type: Date, default: null },
+    reminders: [
+      {
+        daysFromDue: { type: Number, required: true },
+        sentAt: { type: Date, default: Date.now },
+      },
+    ],
   },
   {
     timestamps: true,
@@ -34,6 +94,7 @@ InvoiceSchema.index({ orderId: 1 });
 InvoiceSchema.index({ userId: 1 });
 InvoiceSchema.index({ paymentId: 1 });
 InvoiceSchema.index({ zohoInvoiceId: 1 });
+InvoiceSchema.index({ status: 1, dueDate: 1 });
 
 const Invoice = mongoose.model<InvoiceTypes>("Invoice", InvoiceSchema);
 
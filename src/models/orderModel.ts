@@ -1,6 +1,60 @@
 import mongoose, { Schema } from "mongoose";
 import { OrderTypes } from "../types/orderTypes";
 
+const DeliverableFileSchema = new Schema({
+  url: { type: String, required: true },
+  publicId: { type: String, required: true },
+  fileName: { type: String, required: true },
+  fileType: { type: String, required: true },
+  fileSize: { type: Number, required: true },
+  uploadedAt: { type: Date, default: Date.now },
+});
+
+// Work delivery state for a single order line
+const FulfilmentSchema = new Schema(
+  {
+    status: {
+      type: String,
+      enum: [
+        "Unassigned",
+        "Assigned",
+        "Delivered",
+        "Revision Requested",
+        "Approved",
+      ],
+      default: "Unassigned",
+    },
+    assignee: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    dueDate: { type: Date, default: null },
+    revisionCount: { type: Number, default: 0 },
+    deliveries: [
+      {
+        files: [DeliverableFileSchema],
+        note: { type: String },
+        deliveredBy: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        deliveredAt: { type: Date, default: Date.now },
+      },
+    ],
+    revisions: [
+      {
+        note: { type: String, required: true },
+        requestedBy: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        requestedAt: { type: Date, default: Date.now },
+      },
+    ],
+    approvedAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
 // Create the Order schema
 const OrderSchema = new Schema<OrderTypes>(
   {
@@ -16,16 +70,95 @@ const OrderSchema = new Schema<OrderTypes>(
         wordCount: { type: Number, min: 100 },
         quantity: { type: Number, required: true, min: 1 },
         additionalInfo: { type: String },
+        formId: { type: Schema.Types.ObjectId, ref: "ProductForm", default: null },
+        formVersion: { type: Number, default: null },
+        addOns: [
+          {
+            _id: false,
+            addOn: { type: Schema.Types.ObjectId, required: true },
+            name: { type: String, required: true },
+            group: { type: String, default: null },
+            modifierType: {
+              type: String,
+              enum: ["flat", "percentage"],
+              required: true,
+            },
+            modifierValue: { type: Number, required: true },
+            amount: { type: Number, required: true },
+          },
+        ],
+        unitPrice: { type: Number },
+        formResponses: [
+          {
+            _id: false,
+            field: {
+              type: Schema.Types.ObjectId,
+              ref: "ProductFormField",
+              required: true,
+            },
+            name: { type: String, required: true },
+            label: { type: String, required: true },
+            value: { type: Schema.Types.Mixed, required: true },
+          },
+        ],
         totalPrice: { type: Number, required: true },
+        discount: { type: Number, default: 0 },
         addedAt: { type: Date, default: Date.now },
+        fulfilment: { type: FulfilmentSchema, default: () => ({}) },
       },
     ],
     totalQuantity: { type: Number, required: true },
     totalPrice: { type: Number, required: true },
     couponDiscount: { type: Number, default: 0 },
+    promotions: [
+      {
+        _id: false,
+        coupon: { type: Schema.Types.ObjectId, ref: "Coupon", required: true },
+        code: { type: String, required: true },
+        discountType: { type: String, required: true },
+        automatic: { type: Boolean, default: false },
+        discount: { type: Number, required: true },
+      },
+    ],
+    taxRegime: {
+      type: String,
+      enum: ["GST", "VAT", "None"],
+      default: "None",
+    },
+    taxLines: [
+      {
+        _id: false,
+        type: {
+          type: String,
+          enum: ["CGST", "SGST", "IGST", "VAT"],
+          required: true,
+        },
+        rate: { type: Number, required: true },
+        amount: { type: Number, required: true },
+      },
+    ],
+    taxAmount: { type: Number, default: 0 },
+    reverseCharge: { type: Boolean, default: false },
+    billingAddress: {
+      type: new Schema(
+        {
+          line1: { type: String },
+          line2: { type: String },
+          city: { type: String },
+          state: { type: String },
+          postalCode: { type: String },
+          country: { type: String },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    customerTaxId: { type: String, default: null },
     finalPrice: { type: Number, required: true },
+    storeCreditApplied: { type: Number, default: 0 },
     couponId: { type: Schema.Types.ObjectId, ref: "Coupon", default: null },
     paymentId: { type: String, default: null },
+    transactionId: { type: String, default: null },
     invoiceId: { type: String },
     zohoInvoiceId: { type: String },
     paymentUrl: { type: String, default: null },
@@ -34,9 +167,18 @@ const OrderSchema = new Schema<OrderTypes>(
       enum: ["Pending", "Processing", "Confirmed", "Completed", "Cancelled"],
       default: "Pending",
     },
+    statusHistory: [
+      {
+        from: { type: String, default: null },
+        to: { type: String, required: true },
+        changedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+        note: { type: String },
+        changedAt: { type: Date, default: Date.now },
+      },
+    ],
     paymentStatus: {
       type: String,
-      enum: ["Unpaid", "Paid", "Refunded", "Failed"],
+      enum: ["Unpaid", "Paid", "Partially Refunded", "Refunded", "Failed"],
       default: "Unpaid",
     },
     paymentMethod: {
@@ -45,6 +187,29 @@ const OrderSchema = new Schema<OrderTypes>(
       required: true,
     },
     paymentDate: { type: Date },
+    currency: { type: String, default: "usd" },
+    exchangeRate: { type: Number, default: 1 }, // Units of currency per USD
+    refunds: [
+      {
+        refundId: { type: String, required: true },
+        amount: { type: Number, required: true },
+        providerAmount: { type: Number, required: true },
+        reason: { type: String },
+        source: {
+          type: String,
+          enum: ["admin", "provider"],
+          required: true,
+        },
+        createdBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+        refundedAt: { type: Date, default: Date.now },
+      },
+    ],
+    refundedAmount: { type: Number, default: 0 },
+    subscriptionId: {
+      type: Schema.Types.ObjectId,
+      ref: "Subscription",
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -54,8 +219,11 @@ const OrderSchema = new Schema<OrderTypes>(
 OrderSchema.index({ orderNumber: 1 }, { unique: true });
 OrderSchema.index({ userId: 1 });
 OrderSchema.index({ paymentId: 1 });
+OrderSchema.index({ transactionId: 1 });
 OrderSchema.index({ invoiceId: 1 });
 OrderSchema.index({ zohoInvoiceId: 1 });
+OrderSchema.index({ subscriptionId: 1 });
+OrderSchema.index({ "products.fulfilment.assignee": 1 });
 
 const Order = mongoose.model<OrderTypes>("Order", OrderSchema);
 
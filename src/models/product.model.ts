@@ -22,6 +22,41 @@ const ProductSchema = new Schema<ProductTypes>(
     minimumWords: { type: Number, default: null },
     slug: { type: String, unique: true },
     pricePerUnit: { type: Number, required: true },
+    // Explicit prices that replace the converted USD price
+    currencyPrices: [
+      {
+        _id: false,
+        currency: {
+          type: String,
+          enum: ["usd", "inr", "eur", "gbp", "aud", "cad"],
+          required: true,
+        },
+        pricePerUnit: { type: Number, required: true, min: 0 },
+      },
+    ],
+    // Volume prices by word-count band and quantity
+    priceTiers: [
+      {
+        _id: false,
+        minWordCount: { type: Number, default: 0, min: 0 },
+        minQuantity: { type: Number, default: 1, min: 1 },
+        pricePerUnit: { type: Number, required: true, min: 0 },
+      },
+    ],
+    // Priced options such as turnaround speed or writer level
+    addOns: [
+      {
+        name: { type: String, required: true },
+        group: { type: String, default: null },
+        modifierType: {
+          type: String,
+          enum: ["flat", "percentage"],
+          required: true,
+        },
+        modifierValue: { type: Number, required: true, min: 0 },
+        status: { type: String, enum: ["active", "inactive"], default: "active" },
+      },
+    ],
     pricingType: {
       type: String,
       enum: ["perWord", "perPost", "perReview", "perMonth", "perQuantity"],
@@ -33,6 +68,7 @@ const ProductSchema = new Schema<ProductTypes>(
     priority: { type: Number, default: 0 },
     keywords: { type: [String] },
     formId: { type: Schema.Types.ObjectId, ref: "Form" },
+    formVersion: { type: Number, default: null },
     metaTitle: { type: String },
     metaDescription: { type: String },
     canonicalLink: { type: String },
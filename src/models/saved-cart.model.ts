@@ -0,0 +1,28 @@
+import mongoose, { Schema } from "mongoose";
+import { SavedCartTypes } from "../types/cartTypes";
+
+const SavedCartSchema = new Schema<SavedCartTypes>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    name: { type: String, required: true, trim: true },
+    products: [
+      {
+        product: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+        wordCount: { type: Number, min: 100 },
+        quantity: { type: Number, required: true, min: 1 },
+        additionalInfo: { type: String },
+        formResponses: { type: Schema.Types.Mixed, default: {} },
+        addOns: [{ type: Schema.Types.ObjectId }],
+      },
+    ],
+    totalPrice: { type: Number, default: 0 },
+    lastUsedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+SavedCartSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+const SavedCart = mongoose.model<SavedCartTypes>("SavedCart", SavedCartSchema);
+
+export default SavedCart;
@@ -0,0 +1,62 @@
+import mongoose, { Schema } from "mongoose";
+import { SubscriptionTypes } from "../types/subscription.types";
+
+// Create the Subscription schema
+const SubscriptionSchema = new Schema<SubscriptionTypes>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    product: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    wordCount: { type: Number, min: 100 },
+    quantity: { type: Number, required: true, min: 1 },
+    additionalInfo: { type: String },
+    amount: { type: Number, required: true },
+    taxLines: [
+      {
+        _id: false,
+        type: {
+          type: String,
+          enum: ["CGST", "SGST", "IGST", "VAT"],
+          required: true,
+        },
+        rate: { type: Number, required: true },
+        amount: { type: Number, required: true },
+      },
+    ],
+    taxAmount: { type: Number, default: 0 },
+    currency: { type: String, default: "usd" },
+    exchangeRate: { type: Number, default: 1 },
+    interval: { type: String, enum: ["month"], default: "month" },
+    paymentMethod: {
+      type: String,
+      enum: ["Razorpay", "Stripe"],
+      required: true,
+    },
+    providerSubscriptionId: { type: String, default: null },
+    status: {
+      type: String,
+      enum: ["Incomplete", "Active", "Paused", "Cancelled"],
+      default: "Incomplete",
+    },
+    currentPeriodEnd: { type: Date, default: null },
+    cancelAtPeriodEnd: { type: Boolean, default: false },
+    renewalCount: { type: Number, default: 0 },
+    lastRenewedAt: { type: Date, default: null },
+    pausedAt: { type: Date, default: null },
+    cancelledAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SubscriptionSchema.index({ userId: 1 });
+SubscriptionSchema.index({ status: 1 });
+SubscriptionSchema.index({ providerSubscriptionId: 1 });
+
+const Subscription = mongoose.model<SubscriptionTypes>(
+  "Subscription",
+  SubscriptionSchema
+);
+
+export default Subscription;
@@ -0,0 +1,32 @@
+import mongoose, { Schema } from "mongoose";
+import { TaxRuleTypes } from "../types/tax.types";
+
+// Create the TaxRule schema
+const TaxRuleSchema = new Schema<TaxRuleTypes>(
+  {
+    country: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    regime: { type: String, enum: ["GST", "VAT"], required: true },
+    rate: { type: Number, required: true, min: 0, max: 100 },
+    reverseChargeWithTaxId: { type: Boolean, default: false },
+    status: {
+      type: String,
+      enum: ["active", "inactive"],
+      default: "active",
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    updatedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const TaxRule = mongoose.model<TaxRuleTypes>("TaxRule", TaxRuleSchema);
+
+export default TaxRule;
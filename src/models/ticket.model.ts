@@ -1,5 +1,9 @@
 import mongoose, { Model, Schema } from "mongoose";
 import { Ticket, TicketStatus, TicketPriority } from "../types/ticket.types";
+import { nextSequenceNumber } from "../services/sequence.service";
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 
 const TicketAttachmentSchema = new Schema({
   url: { type: String, required: true },
@@ -56,21 +60,19 @@ const TicketSchema = new Schema<Ticket>(
 
 // Add static method to generate ticket ID
 TicketSchema.statics.generateTicketId = async function () {
-  const prefix = "ADTKT-";
-  // Find the highest existing ticketId
-  const lastTicket = await this.findOne({}, { ticketId: 1 })
-    .sort({ ticketId: -1 })
-    .lean();
-
-  let nextNum = 1;
-  if (lastTicket?.ticketId) {
-    const lastNum = parseInt(lastTicket.ticketId.replace(prefix, ""), 10);
-    if (!isNaN(lastNum)) {
-      nextNum = lastNum + 1;
-    }
-  }
-
-  return `${prefix}${nextNum.toString().padStart(2, "0")}`;
+  return nextSequenceNumber("ticket", {
+    // Continue numbering from tickets created before the counter existed
+    seed: async (prefix) => {
+      const tickets = await this.find(
+        { ticketId: { $regex: `^${escapeRegExp(prefix)}\\d+$` } },
+        { ticketId: 1 }
+      ).lean();
+      return tickets.reduce((max: number, ticket: any) => {
+        const num = parseInt(ticket.ticketId.slice(prefix.length), 10);
+        return isNaN(num) ? max : Math.max(max, num);
+      }, 0);
+    },
+  });
 };
 
 // Pre-save hook to set ticketId
@@ -19,6 +19,21 @@ const UserSchema = new Schema<UserTypes>(
     },
     password: { type: String, default: null },
     contact: { type: String, default: null },
+    billingAddress: {
+      type: new Schema(
+        {
+          line1: { type: String, required: true, trim: true },
+          line2: { type: String, trim: true },
+          city: { type: String, required: true, trim: true },
+          state: { type: String, required: true, trim: true },
+          postalCode: { type: String, required: true, trim: true },
+          country: { type: String, required: true, uppercase: true },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    taxId: { type: String, default: null, uppercase: true, trim: true },
     isAdmin: { type: Boolean, default: false },
     role: {
       type: Schema.Types.ObjectId,
@@ -44,6 +59,8 @@ const UserSchema = new Schema<UserTypes>(
         {
           productId: { type: Schema.Types.ObjectId, ref: "Product" },
           dateAdded: { type: Date, default: Date.now },
+          notifyBackInStock: { type: Boolean, default: false },
+          notifyPriceDrop: { type: Boolean, default: false },
         },
       ],
       default: [],
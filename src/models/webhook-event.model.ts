@@ -0,0 +1,56 @@
+import mongoose, { Schema } from "mongoose";
+import { WebhookEventTypes } from "../types/webhook-event.types";
+
+// Create the WebhookEvent schema
+const WebhookEventSchema = new Schema<WebhookEventTypes>(
+  {
+    provider: {
+      type: String,
+      enum: ["Stripe", "Razorpay"],
+      required: true,
+    },
+    eventId: { type: String, required: true },
+    type: { type: String, required: true },
+    action: {
+      type: String,
+      enum: [
+        "paid",
+        "failed",
+        "expired",
+        "refunded",
+        "renewed",
+        "cancelled",
+        "ignored",
+      ],
+      required: true,
+    },
+    paymentId: { type: String, default: null },
+    transactionId: { type: String, default: null },
+    subscriptionId: { type: String, default: null },
+    metadata: { type: Schema.Types.Mixed, default: {} },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: {
+      type: String,
+      enum: ["Pending", "Processing", "Processed", "Failed"],
+      default: "Pending",
+    },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String, default: null },
+    lastAttemptAt: { type: Date, default: null },
+    processedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+WebhookEventSchema.index({ status: 1 });
+WebhookEventSchema.index({ paymentId: 1 });
+
+const WebhookEvent = mongoose.model<WebhookEventTypes>(
+  "WebhookEvent",
+  WebhookEventSchema
+);
+
+export default WebhookEvent;
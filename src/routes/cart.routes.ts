@@ -1,19 +1,58 @@
 import express, { Router } from "express";
 import verifyToken from "../middlewares/authMiddleware";
+import identifyCartOwner from "../middlewares/cartOwnerMiddleware";
+import {
+  validateCreateSavedCart,
+  validateGuestContact,
+  validateUpdateSavedCart,
+} from "../helpers/validator";
 import {
   syncOrAddToCart,
   updateCart,
   getUserCart,
   emptyCart,
   deleteProduct,
+  saveGuestContact,
+  getCartLeads,
+  reorder,
 } from "../controllers/cart.controller";
+import {
+  createSavedCart,
+  getSavedCarts,
+  updateSavedCart,
+  deleteSavedCart,
+  loadSavedCart,
+} from "../controllers/saved-cart.controller";
+import {
+  getAbandonedCarts,
+  getAbandonedCartReport,
+} from "../controllers/abandoned-cart.controller";
 
 const router: Router = express.Router();
 
-router.post("/add-product-or-sync-cart", verifyToken, syncOrAddToCart);
-router.get("/get-user-cart", verifyToken, getUserCart);
-router.patch("/update-cart", verifyToken, updateCart);
-router.delete("/delete-product", verifyToken, deleteProduct);
+// Guests use these with an X-Cart-Token header instead of signing in
+router.post("/add-product-or-sync-cart", identifyCartOwner, syncOrAddToCart);
+router.get("/get-user-cart", identifyCartOwner, getUserCart);
+router.patch("/update-cart", identifyCartOwner, updateCart);
+router.delete("/delete-product", identifyCartOwner, deleteProduct);
+router.post(
+  "/guest-contact",
+  identifyCartOwner,
+  validateGuestContact,
+  saveGuestContact
+);
+
 router.delete("/empty-cart", verifyToken, emptyCart);
+router.get("/leads", verifyToken, getCartLeads);
+router.get("/abandoned", verifyToken, getAbandonedCarts);
+router.get("/abandoned-report", verifyToken, getAbandonedCartReport);
+router.post("/reorder", verifyToken, reorder);
+
+// Named carts a customer keeps to order again
+router.post("/saved", verifyToken, validateCreateSavedCart, createSavedCart);
+router.get("/saved", verifyToken, getSavedCarts);
+router.patch("/saved", verifyToken, validateUpdateSavedCart, updateSavedCart);
+router.delete("/saved", verifyToken, deleteSavedCart);
+router.post("/saved/load", verifyToken, loadSavedCart);
 
 export default router;
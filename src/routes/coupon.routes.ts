@@ -1,5 +1,6 @@
 import express, { Router } from "express";
 import verifyToken from "../middlewares/authMiddleware";
+import identifyCartOwner from "../middlewares/cartOwnerMiddleware";
 import {
   createCoupon,
   deleteCoupon,
@@ -8,15 +9,49 @@ import {
   updateCoupon,
 } from "../controllers/coupon.controller";
 import { calculateCouponDiscount } from "../controllers/coupon.controller";
+import {
+  addCampaignCodes,
+  createCouponCampaign,
+  exportCampaignCodes,
+  getCouponCampaigns,
+  updateCouponCampaign,
+} from "../controllers/coupon-campaign.controller";
+import {
+  validateAddCampaignCodes,
+  validateCreateCouponCampaign,
+  validateUpdateCouponCampaign,
+} from "../helpers/validator";
 
 const router: Router = express.Router();
 
-router.post("/apply", calculateCouponDiscount);
+router.post("/apply", identifyCartOwner, calculateCouponDiscount);
 router.post("/create", verifyToken, createCoupon);
 router.patch("/update", verifyToken, updateCoupon);
 router.get("/read", verifyToken, getCoupons);
 router.get("/usageStats", verifyToken, getCouponStats);
 router.delete("/delete", verifyToken, deleteCoupon);
 
+// Campaigns of single-use codes
+router.post(
+  "/campaigns/create",
+  verifyToken,
+  validateCreateCouponCampaign,
+  createCouponCampaign
+);
+router.post(
+  "/campaigns/generate",
+  verifyToken,
+  validateAddCampaignCodes,
+  addCampaignCodes
+);
+router.get("/campaigns/read", verifyToken, getCouponCampaigns);
+router.patch(
+  "/campaigns/update",
+  verifyToken,
+  validateUpdateCouponCampaign,
+  updateCouponCampaign
+);
+router.get("/campaigns/export", verifyToken, exportCampaignCodes);
+
 
 export default router;
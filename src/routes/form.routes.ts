@@ -4,6 +4,8 @@ import {
   readForm,
   updateForm,
   deleteForm,
+  renderForm,
+  readFormVersions,
 } from "../controllers/form.controller";
 import {
   createField,
@@ -19,6 +21,8 @@ router.post("/create-form", verifyToken, createForm);
 router.get("/read-form", readForm);
 router.patch("/update-form", verifyToken, updateForm);
 router.delete("/delete-form", verifyToken, deleteForm);
+router.get("/read-form-versions", readFormVersions);
+router.get("/render", renderForm);
 
 router.post("/create-field", verifyToken, createField);
 router.get("/read-fields", readFields);
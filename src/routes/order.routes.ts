@@ -1,29 +1,62 @@
 import {
   createOrder,
   stripeWebhook,
+  razorpayWebhook,
   getOrders,
   updateOrder,
+  refundOrder,
   deleteOrder,
   getOrdersByUserId,
   getOrderStats,
   getSalesReport
 } from "../controllers/order.controller";
+import {
+  getOrderDeliverables,
+  assignOrderDeliverable,
+  uploadOrderDeliverable,
+  approveOrderDeliverable,
+  requestOrderDeliverableRevision,
+} from "../controllers/order-deliverable.controller";
 import express, { Router } from "express";
 import verifyToken from "../middlewares/authMiddleware";
+import { upload } from "../middlewares/multerMiddleware";
+import { validateCreateOrder } from "../helpers/validator";
 
 const router: Router = express.Router();
 
-router.post("/create", verifyToken, createOrder);
+router.post("/create", verifyToken, validateCreateOrder, createOrder);
 router.post(
   "/stripe-webhook",
   express.raw({ type: "application/json" }),
   stripeWebhook
 );
+router.post(
+  "/razorpay-webhook",
+  express.raw({ type: "application/json" }),
+  razorpayWebhook
+);
 router.get("/getOrders", verifyToken, getOrders);
 router.patch("/updateOrder", verifyToken, updateOrder);
+router.post("/refund", verifyToken, refundOrder);
 router.delete("/deleteOrder", verifyToken, deleteOrder);
 router.get("/getUserOrders", verifyToken, getOrdersByUserId);
 router.get("/stats", verifyToken, getOrderStats);
 router.get("/sales-report", verifyToken, getSalesReport);
 
+// Deliverables
+router.get("/deliverables", verifyToken, getOrderDeliverables);
+router.patch("/deliverables/assign", verifyToken, assignOrderDeliverable);
+router.post(
+  "/deliverables/upload",
+  verifyToken,
+  upload.array("files", 10),
+  uploadOrderDeliverable
+);
+router.post("/deliverables/approve", verifyToken, approveOrderDeliverable);
+router.post(
+  "/deliverables/request-revision",
+  verifyToken,
+  requestOrderDeliverableRevision
+);
+
 export default router;
@@ -0,0 +1,44 @@
+import express, { Router } from "express";
+import verifyToken from "../middlewares/authMiddleware";
+import {
+  validateAdjustStoreCredit,
+  validateCreateGiftCards,
+  validateRedeemGiftCard,
+  validateUpdateGiftCard,
+} from "../helpers/validator";
+import {
+  getStoreCredit,
+  adjustStoreCredit,
+  redeemGiftCardCode,
+  createGiftCards,
+  getGiftCards,
+  updateGiftCard,
+} from "../controllers/store-credit.controller";
+
+const router: Router = express.Router();
+
+router.get("/read", verifyToken, getStoreCredit);
+router.post("/adjust", verifyToken, validateAdjustStoreCredit, adjustStoreCredit);
+
+// Gift cards
+router.post(
+  "/gift-cards/redeem",
+  verifyToken,
+  validateRedeemGiftCard,
+  redeemGiftCardCode
+);
+router.post(
+  "/gift-cards/create",
+  verifyToken,
+  validateCreateGiftCards,
+  createGiftCards
+);
+router.get("/gift-cards/read", verifyToken, getGiftCards);
+router.patch(
+  "/gift-cards/update",
+  verifyToken,
+  validateUpdateGiftCard,
+  updateGiftCard
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import express, { Router } from "express";
+import verifyToken from "../middlewares/authMiddleware";
+import { validateCancelSubscription } from "../helpers/validator";
+import {
+  getUserSubscriptions,
+  getSubscriptions,
+  pauseSubscription,
+  resumeSubscription,
+  cancelSubscription,
+} from "../controllers/subscription.controller";
+
+const router: Router = express.Router();
+
+router.get("/getUserSubscriptions", verifyToken, getUserSubscriptions);
+router.get("/read", verifyToken, getSubscriptions);
+router.patch("/pause", verifyToken, pauseSubscription);
+router.patch("/resume", verifyToken, resumeSubscription);
+router.patch(
+  "/cancel",
+  verifyToken,
+  validateCancelSubscription,
+  cancelSubscription
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import express, { Router } from "express";
+import verifyToken from "../middlewares/authMiddleware";
+import {
+  createTaxRule,
+  getTaxRules,
+  updateTaxRule,
+  deleteTaxRule,
+} from "../controllers/tax-rule.controller";
+import {
+  validateCreateTaxRule,
+  validateUpdateTaxRule,
+} from "../helpers/validator";
+
+const router: Router = express.Router();
+
+router.post("/create", verifyToken, validateCreateTaxRule, createTaxRule);
+router.get("/read", verifyToken, getTaxRules);
+router.patch("/update", verifyToken, validateUpdateTaxRule, updateTaxRule);
+router.delete("/delete", verifyToken, deleteTaxRule);
+
+export default router;
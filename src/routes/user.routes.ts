@@ -7,9 +7,10 @@ import {
   getCurrentUser,
 } from "../controllers/user.controller";
 import verifyToken from "../middlewares/authMiddleware";
+import { validateBillingDetails } from "../helpers/validator";
 
 router.get("/find", verifyToken, findUser);
-router.patch("/update", verifyToken, updateUser);
+router.patch("/update", verifyToken, validateBillingDetails, updateUser);
 router.delete("/delete", verifyToken, killUser);
 router.get("/me", verifyToken, getCurrentUser);
 export default router;
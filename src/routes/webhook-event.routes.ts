@@ -0,0 +1,13 @@
+import express, { Router } from "express";
+import verifyToken from "../middlewares/authMiddleware";
+import {
+  getWebhookEvents,
+  replayWebhookEvent,
+} from "../controllers/webhook-event.controller";
+
+const router: Router = express.Router();
+
+router.get("/read", verifyToken, getWebhookEvents);
+router.post("/replay", verifyToken, replayWebhookEvent);
+
+export default router;
@@ -0,0 +1,26 @@
+import express, { Router } from "express";
+import verifyToken from "../middlewares/authMiddleware";
+import {
+  validateWishlistItem,
+  validateWishlistMoveToCart,
+} from "../helpers/validator";
+import {
+  getWishlist,
+  addToWishlist,
+  removeFromWishlist,
+  moveWishlistItemToCart,
+} from "../controllers/wishlist.controller";
+
+const router: Router = express.Router();
+
+router.get("/get", verifyToken, getWishlist);
+router.post("/add", verifyToken, validateWishlistItem, addToWishlist);
+router.delete("/remove", verifyToken, removeFromWishlist);
+router.post(
+  "/move-to-cart",
+  verifyToken,
+  validateWishlistMoveToCart,
+  moveWishlistItemToCart
+);
+
+export default router;
@@ -0,0 +1,56 @@
+import mongoose from "mongoose";
+import Coupon from "../models/coupon.model";
+import dotenv from "dotenv";
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Coupons used to expire through a TTL index on expiresAt, which deleted
+// them. Move expiresAt to endsAt, mark past coupons Expired and drop the
+// TTL index so coupons are kept.
+export const migrateCouponWindows = async (): Promise<void> => {
+  try {
+    const indexes = await Coupon.collection.indexes();
+    const ttlIndex = indexes.find((index) => index.key.expiresAt === 1);
+    if (ttlIndex?.name) {
+      await Coupon.collection.dropIndex(ttlIndex.name);
+      console.log(`Dropped index ${ttlIndex.name}`);
+    }
+
+    const renamed = await Coupon.collection.updateMany(
+      { expiresAt: { $exists: true } },
+      { $rename: { expiresAt: "endsAt" } }
+    );
+    console.log(`Moved expiresAt to endsAt on ${renamed.modifiedCount} coupons`);
+
+    const expired = await Coupon.updateMany(
+      { status: "Active", endsAt: { $ne: null, $lte: new Date() } },
+      { status: "Expired" }
+    );
+    console.log(`Marked ${expired.modifiedCount} coupons expired`);
+  } catch (error) {
+    console.error("Error migrating coupon windows:", error);
+    throw error;
+  }
+};
+
+// Execute the migration if run as a standalone script
+if (require.main === module) {
+  const runMigration = async () => {
+    try {
+      await mongoose.connect(process.env.MONGODB_URI!);
+      console.log("Connected to MongoDB");
+      await migrateCouponWindows();
+      console.log("Migration completed");
+    } catch (error) {
+      console.error("Migration failed:", error);
+    } finally {
+      await mongoose.disconnect();
+      console.log("Disconnected from MongoDB");
+    }
+  };
+
+  runMigration();
+}
+
+export default migrateCouponWindows;
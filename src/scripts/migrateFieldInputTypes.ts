@@ -0,0 +1,56 @@
+import mongoose from "mongoose";
+import FieldModel from "../models/field.model";
+import { resolveInputType } from "../services/product-form.service";
+import dotenv from "dotenv";
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Fields used to take any input type and defaulted to "Text". Map stored
+// values such as "Text", "email" or "dropdown" onto the supported types so
+// the fields pass the model's enum again.
+export const migrateFieldInputTypes = async (): Promise<void> => {
+  try {
+    const fields = await FieldModel.collection
+      .find({}, { projection: { inputType: 1 } })
+      .toArray();
+
+    let migrated = 0;
+    for (const field of fields) {
+      const inputType = resolveInputType(field.inputType);
+      if (inputType === field.inputType) continue;
+
+      await FieldModel.collection.updateOne(
+        { _id: field._id },
+        { $set: { inputType } }
+      );
+      console.log(`Field ${field._id}: "${field.inputType}" -> "${inputType}"`);
+      migrated++;
+    }
+    console.log(`Migrated the input type of ${migrated} fields`);
+  } catch (error) {
+    console.error("Error migrating field input types:", error);
+    throw error;
+  }
+};
+
+// Execute the migration if run as a standalone script
+if (require.main === module) {
+  const runMigration = async () => {
+    try {
+      await mongoose.connect(process.env.MONGODB_URI!);
+      console.log("Connected to MongoDB");
+      await migrateFieldInputTypes();
+      console.log("Migration completed");
+    } catch (error) {
+      console.error("Migration failed:", error);
+    } finally {
+      await mongoose.disconnect();
+      console.log("Disconnected from MongoDB");
+    }
+  };
+
+  runMigration();
+}
+
+export default migrateFieldInputTypes;
@@ -1,9 +1,11 @@
 import app from "./app";
 import { connectDB } from "./database/connectDB";
+import { startCronJobs } from "./cron-jobs";
 
 const PORT = process.env.PORT || 8000;
 
 app.listen(PORT, async () => {
   await connectDB();
+  startCronJobs();
   console.log(`Server running on port ${PORT}`);
 });
@@ -0,0 +1,289 @@
+import { randomBytes } from "crypto";
+import { Types } from "mongoose";
+import Cart from "../models/cartModel";
+import Coupon from "../models/coupon.model";
+import AbandonedCart from "../models/abandoned-cart.model";
+import { sendAbandonedCartEmail } from "../utils/mailer";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Carts nobody can be reminded about are cleared after this long
+export const UNCONTACTABLE_CART_HOURS = 24;
+
+// Reminder hours after the cart's last activity, e.g. "1,24,72" sends a
+// reminder one hour, one day and three days after the customer left
+const getReminderSchedule = (): number[] => {
+  const schedule = (process.env.ABANDONED_CART_REMINDER_HOURS || "1,24,72")
+    .split(",")
+    .map((hours) => parseFloat(hours.trim()))
+    .filter((hours) => !isNaN(hours) && hours > 0);
+  return [...new Set(schedule)].sort((a, b) => a - b);
+};
+
+// Hours after abandonment when a campaign ends and its cart is cleared.
+// Never earlier than the last reminder.
+export const getCampaignLength = (): number => {
+  const schedule = getReminderSchedule();
+  const hours = parseFloat(process.env.ABANDONED_CART_CAMPAIGN_HOURS || "168");
+  return Math.max(
+    isNaN(hours) ? 168 : hours,
+    schedule.length ? schedule[schedule.length - 1] : 0
+  );
+};
+
+// Percentage off offered from the reminder at ABANDONED_CART_COUPON_HOURS
+// (the last reminder by default). No coupon is issued while the percentage
+// is unset or 0.
+const getCouponOffer = (schedule: number[]) => {
+  const percent = parseFloat(process.env.ABANDONED_CART_COUPON_PERCENT || "0");
+  if (isNaN(percent) || percent <= 0 || percent >= 100) return null;
+
+  const fromHours = parseFloat(process.env.ABANDONED_CART_COUPON_HOURS || "");
+  return {
+    percent,
+    fromHours: isNaN(fromHours) ? schedule[schedule.length - 1] : fromHours,
+  };
+};
+
+// Start a campaign for every contactable cart that has been left alone
+// since the first reminder was due. Carts older than a whole campaign are
+// left to the empty cart job rather than reminded about in a burst.
+export const detectAbandonedCarts = async (now = new Date()): Promise<number> => {
+  const schedule = getReminderSchedule();
+  if (schedule.length === 0) return 0;
+
+  const activeCartIds = await AbandonedCart.distinct("cartId", {
+    status: "Active",
+  });
+  const carts = await Cart.find({
+    _id: { $nin: activeCartIds },
+    "products.0": { $exists: true },
+    updatedAt: {
+      $lte: new Date(now.getTime() - schedule[0] * HOUR_MS),
+      $gt: new Date(now.getTime() - getCampaignLength() * HOUR_MS),
+    },
+    $or: [
+      { userId: { $ne: null } },
+      { "guestContact.email": { $type: "string" } },
+    ],
+  })
+    .populate<{ userId: { _id: Types.ObjectId; name: string; email: string } | null }>(
+      "userId",
+      "name email"
+    )
+    .lean();
+
+  let detected = 0;
+  for (const cart of carts) {
+    const email = cart.userId?.email ?? cart.guestContact?.email;
+    if (!email) continue;
+
+    try {
+      await AbandonedCart.create({
+        cartId: cart._id,
+        userId: cart.userId?._id ?? null,
+        guestToken: cart.userId ? null : cart.guestToken ?? null,
+        email,
+        name: cart.userId?.name ?? cart.guestContact?.name ?? null,
+        products: cart.products
+          .filter((line) => !line.unavailable)
+          .map((line) => ({
+            product: line.product._id,
+            wordCount: line.wordCount,
+            quantity: line.quantity,
+            totalPrice: line.totalPrice,
+          })),
+        cartValue: cart.totalPrice,
+        abandonedAt: cart.updatedAt,
+      });
+      detected++;
+    } catch (error: any) {
+      // Another run started a campaign for this cart first
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  return detected;
+};
+
+// Create the single-use coupon offered by a campaign, valid until it ends
+const issueRecoveryCoupon = async (
+  percent: number,
+  endsAt: Date,
+  customer: { userId?: Types.ObjectId | null; email: string }
+): Promise<{ _id: Types.ObjectId; code: string }> => {
+  const coupon = await Coupon.create({
+    // Only the customer the reminder went to can use it; guests by email
+    ...(customer.userId
+      ? { targetUsers: [customer.userId] }
+      : { targetEmails: [customer.email] }),
+    code: `COMEBACK-${randomBytes(4).toString("hex").toUpperCase()}`,
+    couponApplicableOn: "allProducts",
+    couponType: "amountBased",
+    discountType: "percentage",
+    discountValue: percent,
+    usageLimitPerUser: 1,
+    totalUsageLimit: 1,
+    source: "abandonedCart",
+    endsAt,
+  });
+  return { _id: coupon._id, code: coupon.code };
+};
+
+// Send the latest reminder each running campaign has reached. As with
+// invoice reminders, missed stages are skipped rather than sent in a burst.
+// Campaigns whose cart changed since it was abandoned stop here: the
+// customer came back, and a new campaign starts if they leave again.
+export const sendAbandonedCartReminders = async (
+  now = new Date()
+): Promise<number> => {
+  const schedule = getReminderSchedule();
+  if (schedule.length === 0) return 0;
+  const couponOffer = getCouponOffer(schedule);
+  const campaignLength = getCampaignLength();
+
+  const campaigns = await AbandonedCart.find({ status: "Active" }).select(
+    "cartId userId email abandonedAt reminders couponCode"
+  );
+
+  let sent = 0;
+  for (const campaign of campaigns) {
+    const cart = await Cart.findById(campaign.cartId)
+      .select("products updatedAt")
+      .lean();
+    if (
+      !cart ||
+      cart.products.length === 0 ||
+      (cart.updatedAt && cart.updatedAt > campaign.abandonedAt)
+    ) {
+      await AbandonedCart.updateOne(
+        { _id: campaign._id, status: "Active" },
+        { status: "Returned", endedAt: now }
+      );
+      continue;
+    }
+
+    const hoursSince =
+      (now.getTime() - campaign.abandonedAt.getTime()) / HOUR_MS;
+    const stage = schedule.filter((hours) => hours <= hoursSince).pop();
+    if (stage === undefined) continue;
+
+    const lastStage = campaign.reminders.length
+      ? Math.max(...campaign.reminders.map((r) => r.hoursAfter))
+      : -Infinity;
+    if (stage <= lastStage) continue;
+
+    // Claim the stage before sending so overlapping runs send it once
+    const claimed = await AbandonedCart.updateOne(
+      {
+        _id: campaign._id,
+        status: "Active",
+        "reminders.hoursAfter": { $not: { $gte: stage } },
+      },
+      { $push: { reminders: { hoursAfter: stage, sentAt: now } } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    if (couponOffer && stage >= couponOffer.fromHours && !campaign.couponCode) {
+      const coupon = await issueRecoveryCoupon(
+        couponOffer.percent,
+        new Date(campaign.abandonedAt.getTime() + campaignLength * HOUR_MS),
+        campaign
+      );
+      await AbandonedCart.updateOne(
+        { _id: campaign._id, "reminders.hoursAfter": stage },
+        {
+          couponId: coupon._id,
+          couponCode: coupon.code,
+          "reminders.$.couponCode": coupon.code,
+        }
+      );
+    }
+
+    await sendAbandonedCartEmail(campaign._id.toString(), stage);
+    sent++;
+  }
+
+  return sent;
+};
+
+// End campaigns that ran their full length without an order, clearing the
+// cart unless the customer has changed it since
+export const endAbandonedCartCampaigns = async (
+  now = new Date()
+): Promise<number> => {
+  const campaigns = await AbandonedCart.find({
+    status: "Active",
+    abandonedAt: {
+      $lte: new Date(now.getTime() - getCampaignLength() * HOUR_MS),
+    },
+  }).select("cartId abandonedAt");
+
+  let ended = 0;
+  for (const campaign of campaigns) {
+    const result = await AbandonedCart.updateOne(
+      { _id: campaign._id, status: "Active" },
+      { status: "Expired", endedAt: now }
+    );
+    if (result.modifiedCount === 0) continue;
+
+    await Cart.updateOne(
+      { _id: campaign.cartId, updatedAt: { $lte: campaign.abandonedAt } },
+      { products: [], totalQuantity: 0, totalPrice: 0 }
+    );
+    ended++;
+  }
+
+  return ended;
+};
+
+// Helper to attribute an order to the latest campaign for its cart: one still
+// running, or one the customer came back during. Only campaigns that sent a
+// reminder count as recoveries.
+export const recordCartRecovery = async (
+  cartId: Types.ObjectId | string,
+  orderId: Types.ObjectId,
+  orderValue: number,
+  now = new Date()
+): Promise<void> => {
+  const campaign = await AbandonedCart.findOne({
+    cartId,
+    status: { $in: ["Active", "Returned"] },
+    "reminders.0": { $exists: true },
+    abandonedAt: {
+      $gt: new Date(now.getTime() - getCampaignLength() * HOUR_MS),
+    },
+  })
+    .sort({ abandonedAt: -1 })
+    .select("endedAt");
+  if (!campaign) return;
+
+  await AbandonedCart.updateOne(
+    { _id: campaign._id, status: { $in: ["Active", "Returned"] } },
+    {
+      status: "Recovered",
+      orderId,
+      recoveredAt: now,
+      recoveredValue: orderValue,
+      endedAt: campaign.endedAt ?? now,
+    }
+  );
+};
+
+// Helper to move a guest cart's campaigns onto the user's cart it was merged
+// into, so a later order is still attributed to them
+export const transferCartCampaigns = async (
+  guestCartId: Types.ObjectId,
+  cartId: Types.ObjectId,
+  userId: string
+): Promise<void> => {
+  const now = new Date();
+  await AbandonedCart.updateMany(
+    { cartId: guestCartId, status: "Active" },
+    { status: "Returned", endedAt: now }
+  );
+  await AbandonedCart.updateMany(
+    { cartId: guestCartId, status: "Returned" },
+    { cartId, userId }
+  );
+};
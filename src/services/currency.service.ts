@@ -0,0 +1,142 @@
+import axios from "axios";
+import { Request } from "express";
+import ExchangeRate from "../models/exchange-rate.model";
+import { CustomError } from "../middlewares/error";
+import { CurrencyCode } from "../types/currency.types";
+import { ProductTypes } from "../types/productTypes";
+
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = [
+  "usd",
+  "inr",
+  "eur",
+  "gbp",
+  "aud",
+  "cad",
+];
+
+const RATES_API_URL = "https://api.exchangerate-api.com/v4/latest/USD";
+
+// Cached rates older than this are refreshed before use. If the refresh
+// fails the stale rate is still used rather than blocking checkout.
+const RATE_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+const EURO_COUNTRIES = [
+  "AT", "BE", "CY", "DE", "EE", "ES", "FI", "FR", "GR", "HR",
+  "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PT", "SI", "SK",
+];
+
+const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+  IN: "inr",
+  GB: "gbp",
+  AU: "aud",
+  CA: "cad",
+  ...Object.fromEntries(EURO_COUNTRIES.map((country) => [country, "eur"])),
+};
+
+export const isSupportedCurrency = (value: unknown): value is CurrencyCode =>
+  typeof value === "string" &&
+  SUPPORTED_CURRENCIES.includes(value.toLowerCase() as CurrencyCode);
+
+// Fetch the latest USD rates and store them, returning how many were updated
+export const refreshExchangeRates = async (): Promise<number> => {
+  const response = await axios.get(RATES_API_URL, { timeout: 10000 });
+  const rates: Record<string, number> = response.data?.rates ?? {};
+  const fetchedAt = new Date();
+
+  const updates = SUPPORTED_CURRENCIES.filter(
+    (currency) =>
+      currency !== "usd" && typeof rates[currency.toUpperCase()] === "number"
+  ).map((currency) => ({
+    updateOne: {
+      filter: { currency },
+      update: {
+        rate: rates[currency.toUpperCase()],
+        source: "exchangerate-api",
+        fetchedAt,
+      },
+      upsert: true,
+    },
+  }));
+
+  if (updates.length > 0) {
+    await ExchangeRate.bulkWrite(updates);
+  }
+  return updates.length;
+};
+
+// Get the cached USD rate for a currency, refreshing it when stale
+export const getExchangeRate = async (
+  currency: CurrencyCode
+): Promise<number> => {
+  if (currency === "usd") return 1;
+
+  let cached = await ExchangeRate.findOne({ currency }).lean();
+  if (!cached || Date.now() - cached.fetchedAt.getTime() > RATE_MAX_AGE_MS) {
+    try {
+      await refreshExchangeRates();
+      cached = await ExchangeRate.findOne({ currency }).lean();
+    } catch (error) {
+      console.error("Error refreshing exchange rates:", error);
+    }
+  }
+
+  if (!cached) {
+    throw new CustomError(
+      503,
+      `No exchange rate available for ${currency.toUpperCase()}`
+    );
+  }
+  return cached.rate;
+};
+
+// Country from the CDN header when present, otherwise an IP lookup
+const getRequestCountry = async (req: Request): Promise<string | null> => {
+  const countryHeader = req.headers["cf-ipcountry"];
+  if (typeof countryHeader === "string" && countryHeader !== "XX") {
+    return countryHeader.toUpperCase();
+  }
+
+  if (!req.ip) return null;
+  try {
+    const response = await axios.get(
+      `https://ipinfo.io/${req.ip}/json?token=${process.env.IPINFO_TOKEN}`,
+      { timeout: 5000 }
+    );
+    return response.data?.country ?? null;
+  } catch (error) {
+    console.error("Error detecting region:", error);
+    return null;
+  }
+};
+
+// Resolve the checkout currency from an explicit `currency` override in the
+// body or query string, falling back to the caller's country
+export const resolveRequestCurrency = async (
+  req: Request
+): Promise<CurrencyCode> => {
+  const override = req.body?.currency ?? req.query.currency;
+  if (override !== undefined && override !== "") {
+    if (!isSupportedCurrency(override)) {
+      throw new CustomError(400, `Unsupported currency: ${override}`);
+    }
+    return override.toLowerCase() as CurrencyCode;
+  }
+
+  const country = await getRequestCountry(req);
+  return (country && COUNTRY_CURRENCIES[country]) || "usd";
+};
+
+// Price per unit in the given currency: the product's explicit price for
+// that currency if set, otherwise the USD price converted at the rate
+export const getProductUnitPrice = (
+  product: Pick<ProductTypes, "pricePerUnit" | "currencyPrices">,
+  currency: CurrencyCode,
+  exchangeRate: number
+): number => {
+  const explicitPrice = product.currencyPrices?.find(
+    (price) => price.currency === currency
+  );
+  return explicitPrice
+    ? explicitPrice.pricePerUnit
+    : product.pricePerUnit * exchangeRate;
+};
@@ -0,0 +1,93 @@
+import { Types } from "mongoose";
+import Invoice from "../models/invoice.model";
+import Order from "../models/orderModel";
+import { sendInvoiceReminderEmail } from "../utils/mailer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reminder days relative to the due date, e.g. "-3,0,3,7" sends a reminder
+// three days before, on the due date, and three and seven days after
+const getReminderSchedule = (): number[] => {
+  const schedule = (process.env.INVOICE_REMINDER_DAYS || "-3,0,3,7,14")
+    .split(",")
+    .map((day) => parseInt(day.trim(), 10))
+    .filter((day) => !isNaN(day));
+  return [...new Set(schedule)].sort((a, b) => a - b);
+};
+
+// Helper to find which of the given orders were cancelled; their invoices
+// are not chased even if they were left open
+const getCancelledOrderIds = async (orderIds: Types.ObjectId[]) => {
+  const orders = await Order.find({
+    _id: { $in: orderIds },
+    status: "Cancelled",
+  })
+    .select("_id")
+    .lean();
+  return orders.map((order) => order._id);
+};
+
+// Flag unpaid invoices whose due date has passed
+export const markOverdueInvoices = async (now = new Date()): Promise<number> => {
+  const filter = { status: "Unpaid", dueDate: { $lt: now } };
+  const cancelledOrderIds = await getCancelledOrderIds(
+    await Invoice.distinct("orderId", filter)
+  );
+
+  const result = await Invoice.updateMany(
+    { ...filter, orderId: { $nin: cancelledOrderIds } },
+    { status: "Overdue", overdueAt: now }
+  );
+  return result.modifiedCount;
+};
+
+// Send the latest reminder each open invoice has reached. Reminders that were
+// missed (e.g. while the job was down) are skipped rather than sent in a burst.
+export const sendInvoiceReminders = async (now = new Date()): Promise<number> => {
+  const schedule = getReminderSchedule();
+  if (schedule.length === 0) return 0;
+
+  // Invoices whose earliest reminder is due by now
+  const invoices = await Invoice.find({
+    status: { $in: ["Unpaid", "Overdue"] },
+    dueDate: { $lte: new Date(now.getTime() - schedule[0] * DAY_MS) },
+  }).select("orderId dueDate reminders");
+  const cancelledOrderIds = new Set(
+    (await getCancelledOrderIds(invoices.map((invoice) => invoice.orderId))).map(
+      String
+    )
+  );
+
+  let sent = 0;
+  for (const invoice of invoices) {
+    if (cancelledOrderIds.has(String(invoice.orderId))) continue;
+
+    const daysFromDue = Math.floor(
+      (now.getTime() - invoice.dueDate.getTime()) / DAY_MS
+    );
+    const stage = schedule.filter((day) => day <= daysFromDue).pop();
+    if (stage === undefined) continue;
+
+    // Only later stages than the last reminder are sent
+    const lastStage = invoice.reminders.length
+      ? Math.max(...invoice.reminders.map((r) => r.daysFromDue))
+      : -Infinity;
+    if (stage <= lastStage) continue;
+
+    // Claim the stage before sending so overlapping runs send it once
+    const claimed = await Invoice.updateOne(
+      {
+        _id: invoice._id,
+        status: { $in: ["Unpaid", "Overdue"] },
+        "reminders.daysFromDue": { $not: { $gte: stage } },
+      },
+      { $push: { reminders: { daysFromDue: stage, sentAt: now } } }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    await sendInvoiceReminderEmail(invoice._id.toString(), stage);
+    sent++;
+  }
+
+  return sent;
+};
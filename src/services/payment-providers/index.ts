@@ -0,0 +1,21 @@
+import { CustomError } from "../../middlewares/error";
+import {
+  PaymentProvider,
+  PaymentProviderName,
+} from "../../types/payment.types";
+import stripeProvider from "./stripe.provider";
+import razorpayProvider from "./razorpay.provider";
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  Stripe: stripeProvider,
+  Razorpay: razorpayProvider,
+};
+
+// Resolve a provider from the order's paymentMethod, defaulting to Stripe
+export const getPaymentProvider = (name?: string): PaymentProvider => {
+  const providerName = (name || "Stripe") as PaymentProviderName;
+  if (!Object.keys(providers).includes(providerName)) {
+    throw new CustomError(400, `Unsupported payment method "${name}"`);
+  }
+  return providers[providerName];
+};
@@ -0,0 +1,193 @@
+import Razorpay from "razorpay";
+import { IncomingHttpHeaders } from "http";
+import { CustomError } from "../../middlewares/error";
+import {
+  CheckoutSession,
+  CreateCheckoutParams,
+  CreateRefundParams,
+  PaymentEventAction,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderRefund,
+  ProviderRefundSummary,
+  ProviderSubscription,
+} from "../../types/payment.types";
+
+const razorpay = new Razorpay({
+  key_id: process.env.RAZORPAY_KEY_ID!,
+  key_secret: process.env.RAZORPAY_KEY_SECRET!,
+});
+
+const toProviderRefund = (refund: {
+  id: string;
+  amount?: number;
+  created_at: number;
+}): ProviderRefund => ({
+  refundId: refund.id,
+  amount: refund.amount ?? 0,
+  createdAt: new Date(refund.created_at * 1000),
+});
+
+const subscriptionsNotSupported = (): never => {
+  throw new CustomError(400, "Subscriptions are not supported with Razorpay");
+};
+
+// Map Razorpay payment link and refund events onto the provider-agnostic actions
+const getEventAction = (eventType: string): PaymentEventAction => {
+  switch (eventType) {
+    case "payment_link.paid":
+      return "paid";
+    case "payment_link.expired":
+    case "payment_link.cancelled":
+      return "expired";
+    case "refund.processed":
+      return "refunded";
+    default:
+      return "ignored";
+  }
+};
+
+const razorpayProvider: PaymentProvider = {
+  name: "Razorpay",
+  supportsSubscriptions: false,
+
+  // Razorpay hosted checkout is a Payment Link, which takes a single amount,
+  // so line items and the discount are collapsed into one total here.
+  async createCheckout(
+    params: CreateCheckoutParams
+  ): Promise<CheckoutSession> {
+    if (params.lineItems.some((item) => item.recurringInterval)) {
+      subscriptionsNotSupported();
+    }
+
+    const subtotal = params.lineItems.reduce(
+      (sum, item) => sum + item.unitAmount * item.quantity,
+      0
+    );
+    const taxRate = (params.taxRates ?? []).reduce(
+      (sum, tax) => sum + tax.rate,
+      0
+    );
+    const amount = Math.max(
+      0,
+      Math.max(0, subtotal - params.discountAmount) * (1 + taxRate / 100) -
+        (params.creditAmount ?? 0)
+    );
+
+    const paymentLink = await razorpay.paymentLink.create({
+      amount: Math.round(amount * 100), // Paise / smallest currency unit
+      currency: params.currency.toUpperCase(),
+      reference_id: params.orderNumber,
+      description: `Order #${params.orderNumber}`,
+      customer: {
+        name: params.customer?.name,
+        email: params.customer?.email,
+        contact: params.customer?.contact,
+      },
+      notify: { email: false, sms: false },
+      notes: params.metadata,
+      callback_url: params.successUrl,
+      callback_method: "get",
+    });
+
+    return { paymentId: paymentLink.id, paymentUrl: paymentLink.short_url };
+  },
+
+  async expireCheckout(paymentId: string): Promise<void> {
+    const paymentLink = await razorpay.paymentLink.fetch(paymentId);
+    if (paymentLink.status === "created") {
+      await razorpay.paymentLink.cancel(paymentId);
+    }
+  },
+
+  constructWebhookEvent(
+    rawBody: Buffer | string,
+    headers: IncomingHttpHeaders
+  ): PaymentWebhookEvent {
+    const signature = headers["x-razorpay-signature"];
+    if (!signature || typeof signature !== "string") {
+      throw new CustomError(400, "Missing Razorpay signature header");
+    }
+
+    const body = rawBody.toString();
+    const isValid = Razorpay.validateWebhookSignature(
+      body,
+      signature,
+      process.env.RAZORPAY_WEBHOOK_SECRET!
+    );
+    if (!isValid) {
+      throw new CustomError(400, "Invalid Razorpay webhook signature");
+    }
+
+    const event = JSON.parse(body);
+    const paymentLink = event.payload?.payment_link?.entity;
+    const payment = event.payload?.payment?.entity;
+    const eventId = headers["x-razorpay-event-id"];
+
+    return {
+      id:
+        typeof eventId === "string"
+          ? eventId
+          : `${event.event}:${paymentLink?.id ?? payment?.id}:${event.created_at}`,
+      type: event.event,
+      action: getEventAction(event.event),
+      paymentId: paymentLink?.id ?? null,
+      transactionId: payment?.id ?? null,
+      metadata: paymentLink?.notes ?? payment?.notes ?? {},
+      payload: event,
+    };
+  },
+
+  async resolveTransactionId(paymentId: string): Promise<string | null> {
+    const paymentLink = await razorpay.paymentLink.fetch(paymentId);
+    // The SDK types `payments` as a single object, the API returns a list
+    const payments = (paymentLink.payments ?? []) as unknown as {
+      payment_id: string;
+      status: string;
+    }[];
+    return payments.find((p) => p.status === "captured")?.payment_id ?? null;
+  },
+
+  async getRefunds(transactionId: string): Promise<ProviderRefundSummary> {
+    const [payment, refunds] = await Promise.all([
+      razorpay.payments.fetch(transactionId),
+      razorpay.payments.fetchMultipleRefund(transactionId, { count: 100 }),
+    ]);
+
+    return {
+      capturedAmount: Number(payment.amount),
+      refunds: refunds.items
+        .filter((refund) => refund.status !== "failed")
+        .map(toProviderRefund),
+    };
+  },
+
+  async refund(params: CreateRefundParams): Promise<ProviderRefund> {
+    const refund = await razorpay.payments.refund(params.transactionId, {
+      amount: params.amount,
+      notes: {
+        ...params.metadata,
+        ...(params.reason && { reason: params.reason }),
+      },
+    });
+    return toProviderRefund(refund);
+  },
+
+  async getSubscription(): Promise<ProviderSubscription> {
+    return subscriptionsNotSupported();
+  },
+
+  async pauseSubscription(): Promise<void> {
+    subscriptionsNotSupported();
+  },
+
+  async resumeSubscription(): Promise<void> {
+    subscriptionsNotSupported();
+  },
+
+  async cancelSubscription(): Promise<void> {
+    subscriptionsNotSupported();
+  },
+};
+
+export default razorpayProvider;
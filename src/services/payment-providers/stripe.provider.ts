@@ -0,0 +1,305 @@
+import Stripe from "stripe";
+import { IncomingHttpHeaders } from "http";
+import { CustomError } from "../../middlewares/error";
+import {
+  CheckoutSession,
+  CreateCheckoutParams,
+  CreateRefundParams,
+  PaymentEventAction,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderRefund,
+  ProviderRefundSummary,
+  ProviderSubscription,
+} from "../../types/payment.types";
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+// Helper to read an id from an expandable Stripe field
+const getStripeId = (value: string | { id: string } | null | undefined) =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+const toProviderRefund = (refund: Stripe.Refund): ProviderRefund => ({
+  refundId: refund.id,
+  amount: refund.amount,
+  createdAt: new Date(refund.created * 1000),
+});
+
+// Stripe tax rates are reusable, so create each name/rate pair once per process
+const taxRateIdCache = new Map<string, string>();
+const getTaxRateId = async (name: string, rate: number): Promise<string> => {
+  const key = `${name}:${rate}`;
+  if (!taxRateIdCache.has(key)) {
+    const taxRate = await stripe.taxRates.create({
+      display_name: name,
+      percentage: rate,
+      inclusive: false,
+    });
+    taxRateIdCache.set(key, taxRate.id);
+  }
+  return taxRateIdCache.get(key)!;
+};
+
+// Helper to find the PaymentIntent that settled a subscription invoice
+const getInvoicePaymentIntent = async (
+  invoiceId: string
+): Promise<string | null> => {
+  const payments = await stripe.invoicePayments.list({
+    invoice: invoiceId,
+    status: "paid",
+    limit: 1,
+  });
+  return getStripeId(payments.data[0]?.payment.payment_intent);
+};
+
+// Map Stripe checkout, subscription and refund events onto the
+// provider-agnostic actions
+const getEventAction = (event: Stripe.Event): PaymentEventAction => {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded":
+      return event.data.object.payment_status === "paid" ? "paid" : "ignored";
+    case "checkout.session.async_payment_failed":
+      return "failed";
+    case "checkout.session.expired":
+      return "expired";
+    case "charge.refunded":
+      return "refunded";
+    case "invoice.paid":
+      // The first invoice is settled through checkout.session.completed
+      return event.data.object.billing_reason === "subscription_cycle"
+        ? "renewed"
+        : "ignored";
+    case "customer.subscription.deleted":
+      return "cancelled";
+    default:
+      return "ignored";
+  }
+};
+
+// Pull the checkout, payment and subscription ids out of an event
+const getEventReferences = (
+  event: Stripe.Event
+): Pick<
+  PaymentWebhookEvent,
+  "paymentId" | "transactionId" | "subscriptionId" | "metadata"
+> => {
+  if (event.type.startsWith("checkout.session.")) {
+    const session = event.data.object as Stripe.Checkout.Session;
+    return {
+      paymentId: session.id,
+      transactionId: getStripeId(session.payment_intent),
+      subscriptionId: getStripeId(session.subscription),
+      metadata: session.metadata ?? {},
+    };
+  }
+
+  if (event.type.startsWith("invoice.")) {
+    const invoice = event.data.object as Stripe.Invoice;
+    const details = invoice.parent?.subscription_details;
+    return {
+      paymentId: invoice.id ?? null,
+      transactionId: getStripeId(
+        invoice.payments?.data[0]?.payment.payment_intent
+      ),
+      subscriptionId: getStripeId(details?.subscription),
+      metadata: details?.metadata ?? {},
+    };
+  }
+
+  if (event.type.startsWith("customer.subscription.")) {
+    const subscription = event.data.object as Stripe.Subscription;
+    return {
+      paymentId: null,
+      transactionId: null,
+      subscriptionId: subscription.id,
+      metadata: subscription.metadata ?? {},
+    };
+  }
+
+  const object = event.data.object as {
+    metadata?: any;
+    payment_intent?: string | { id: string } | null;
+  };
+  return {
+    paymentId: null,
+    transactionId: getStripeId(object.payment_intent),
+    subscriptionId: null,
+    metadata: object.metadata ?? {},
+  };
+};
+
+const stripeProvider: PaymentProvider = {
+  name: "Stripe",
+  supportsSubscriptions: true,
+
+  async createCheckout(
+    params: CreateCheckoutParams
+  ): Promise<CheckoutSession> {
+    const { currency, lineItems } = params;
+    const taxRate = (params.taxRates ?? []).reduce(
+      (sum, tax) => sum + tax.rate,
+      0
+    );
+    // Stripe takes discounts off before tax, so store credit is passed as
+    // the pre-tax amount that lowers the total by the credit
+    const discountAmount =
+      params.discountAmount + (params.creditAmount ?? 0) / (1 + taxRate / 100);
+    // One-time lines are added to the first invoice of a subscription
+    const isSubscription = lineItems.some((item) => item.recurringInterval);
+    const taxRateIds = await Promise.all(
+      (params.taxRates ?? []).map((tax) => getTaxRateId(tax.name, tax.rate))
+    );
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ["card"],
+      line_items: lineItems.map((item) => ({
+        price_data: {
+          currency,
+          product_data: { name: item.name },
+          unit_amount: Math.round(item.unitAmount * 100), // Local currency cents/paise
+          ...(item.recurringInterval && {
+            recurring: { interval: item.recurringInterval },
+          }),
+        },
+        quantity: item.quantity,
+        ...(taxRateIds.length > 0 && { tax_rates: taxRateIds }),
+      })),
+      ...(discountAmount > 0
+        ? {
+            discounts: [
+              {
+                coupon: await stripe.coupons
+                  .create({
+                    amount_off: Math.round(discountAmount * 100),
+                    currency,
+                    duration: "once",
+                  })
+                  .then((c) => c.id),
+              },
+            ],
+          }
+        : {}),
+      mode: isSubscription ? "subscription" : "payment",
+      customer_email: params.customer?.email,
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      metadata: params.metadata,
+      ...(isSubscription && {
+        subscription_data: { metadata: params.metadata },
+      }),
+    });
+
+    return { paymentId: session.id, paymentUrl: session.url };
+  },
+
+  async expireCheckout(paymentId: string): Promise<void> {
+    const session = await stripe.checkout.sessions.retrieve(paymentId);
+    if (session.status === "open") {
+      await stripe.checkout.sessions.expire(paymentId);
+    }
+  },
+
+  constructWebhookEvent(
+    rawBody: Buffer | string,
+    headers: IncomingHttpHeaders
+  ): PaymentWebhookEvent {
+    const signature = headers["stripe-signature"];
+    if (!signature) {
+      throw new CustomError(400, "Missing Stripe signature header");
+    }
+
+    const event = stripe.webhooks.constructEvent(
+      rawBody,
+      signature,
+      process.env.STRIPE_WEBHOOK_SECRET!
+    );
+
+    return {
+      id: event.id,
+      type: event.type,
+      action: getEventAction(event),
+      ...getEventReferences(event),
+      payload: event,
+    };
+  },
+
+  async resolveTransactionId(paymentId: string): Promise<string | null> {
+    // Subscription renewals are keyed by their invoice
+    if (paymentId.startsWith("in_")) {
+      return getInvoicePaymentIntent(paymentId);
+    }
+
+    const session = await stripe.checkout.sessions.retrieve(paymentId);
+    if (session.payment_intent) {
+      return getStripeId(session.payment_intent);
+    }
+    const invoiceId = getStripeId(session.invoice);
+    return invoiceId ? getInvoicePaymentIntent(invoiceId) : null;
+  },
+
+  async getRefunds(transactionId: string): Promise<ProviderRefundSummary> {
+    const [paymentIntent, refunds] = await Promise.all([
+      stripe.paymentIntents.retrieve(transactionId),
+      stripe.refunds.list({ payment_intent: transactionId, limit: 100 }),
+    ]);
+
+    return {
+      capturedAmount: paymentIntent.amount_received,
+      refunds: refunds.data
+        .filter((refund) => refund.status !== "failed")
+        .map(toProviderRefund),
+    };
+  },
+
+  async refund(params: CreateRefundParams): Promise<ProviderRefund> {
+    const refund = await stripe.refunds.create({
+      payment_intent: params.transactionId,
+      amount: params.amount,
+      reason: "requested_by_customer",
+      metadata: {
+        ...params.metadata,
+        ...(params.reason && { reason: params.reason }),
+      },
+    });
+    return toProviderRefund(refund);
+  },
+
+  async getSubscription(subscriptionId: string): Promise<ProviderSubscription> {
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    // Billing periods are tracked per item; all items share one schedule here
+    const periodEnd = subscription.items.data[0]?.current_period_end;
+    return {
+      status: subscription.status,
+      currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : null,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    };
+  },
+
+  async pauseSubscription(subscriptionId: string): Promise<void> {
+    await stripe.subscriptions.update(subscriptionId, {
+      pause_collection: { behavior: "void" },
+    });
+  },
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    await stripe.subscriptions.update(subscriptionId, {
+      pause_collection: "",
+    });
+  },
+
+  async cancelSubscription(
+    subscriptionId: string,
+    atPeriodEnd: boolean
+  ): Promise<void> {
+    if (atPeriodEnd) {
+      await stripe.subscriptions.update(subscriptionId, {
+        cancel_at_period_end: true,
+      });
+    } else {
+      await stripe.subscriptions.cancel(subscriptionId);
+    }
+  },
+};
+
+export default stripeProvider;
@@ -0,0 +1,236 @@
+import Product from "../models/product.model";
+import { CustomError } from "../middlewares/error";
+import { getProductUnitPrice } from "./currency.service";
+import { CurrencyCode } from "../types/currency.types";
+import {
+  LineAddOn,
+  LinePrice,
+  PriceTier,
+  ProductAddOn,
+  ProductTypes,
+} from "../types/productTypes";
+
+type PricedProduct = Pick<
+  ProductTypes,
+  "name" | "pricePerUnit" | "currencyPrices" | "priceTiers" | "addOns"
+>;
+
+interface PricedLine {
+  product: any; // ObjectId or populated product
+  wordCount?: number;
+  quantity: number;
+  addOns?: unknown[];
+  unitPrice?: number;
+  totalPrice: number;
+}
+
+export const roundPrice = (value: number) => Number(value.toFixed(2));
+
+// The tier a line qualifies for: the most specific one whose word-count and
+// quantity minimums it meets
+export const findPriceTier = (
+  tiers: PriceTier[] | undefined,
+  wordCount: number,
+  quantity: number
+): PriceTier | null =>
+  (tiers ?? [])
+    .filter(
+      (tier) =>
+        wordCount >= (tier.minWordCount ?? 0) &&
+        quantity >= (tier.minQuantity ?? 1)
+    )
+    .sort(
+      (a, b) =>
+        (b.minWordCount ?? 0) - (a.minWordCount ?? 0) ||
+        (b.minQuantity ?? 1) - (a.minQuantity ?? 1)
+    )[0] ?? null;
+
+// The product's add-ons chosen for a line. Throws a 400 for unknown or
+// inactive add-ons, and for two variants from the same group.
+export const resolveAddOns = (
+  product: Pick<ProductTypes, "name" | "addOns">,
+  addOnIds: unknown[] | undefined | null
+): ProductAddOn[] => {
+  const ids = [...new Set((addOnIds ?? []).map((id) => String(id)))];
+  const groups = new Set<string>();
+
+  return ids.map((id) => {
+    const addOn = (product.addOns ?? []).find(
+      (option) => option._id?.toString() === id
+    );
+    if (!addOn || addOn.status !== "active") {
+      throw new CustomError(
+        400,
+        `Add-on ${id} is not available for ${product.name}`
+      );
+    }
+    if (addOn.group) {
+      if (groups.has(addOn.group)) {
+        throw new CustomError(
+          400,
+          `Only one ${addOn.group} option can be chosen for ${product.name}`
+        );
+      }
+      groups.add(addOn.group);
+    }
+    return addOn;
+  });
+};
+
+// Price of a line in the given currency. Word-based lines are priced per
+// 100 words. Tier prices are in USD; where the product has an explicit price
+// in the currency, the tier is applied as the same fraction of it.
+//
+// The unit amount is rounded before multiplying by quantity, so totals match
+// what the payment provider charges. Percentage add-ons apply to the item
+// price before add-ons; flat add-ons are USD per item.
+export const getLinePrice = (
+  product: PricedProduct,
+  line: {
+    wordCount?: number | null;
+    quantity: number;
+    addOns?: unknown[] | null;
+  },
+  currency: CurrencyCode = "usd",
+  exchangeRate = 1
+): LinePrice => {
+  const wordCount = line.wordCount && line.wordCount > 0 ? line.wordCount : 0;
+  const quantity = line.quantity > 0 ? line.quantity : 1;
+  const tier = findPriceTier(product.priceTiers, wordCount, quantity);
+
+  let unitPrice = getProductUnitPrice(product, currency, exchangeRate);
+  if (tier && product.pricePerUnit > 0) {
+    unitPrice *= tier.pricePerUnit / product.pricePerUnit;
+  } else if (tier) {
+    unitPrice = tier.pricePerUnit * exchangeRate;
+  }
+
+  const baseAmount = roundPrice(
+    wordCount > 0 ? (wordCount / 100) * unitPrice : unitPrice
+  );
+
+  const addOns: LineAddOn[] = resolveAddOns(product, line.addOns).map(
+    (addOn) => ({
+      addOn: addOn._id!,
+      name: addOn.name,
+      group: addOn.group ?? null,
+      modifierType: addOn.modifierType,
+      modifierValue: addOn.modifierValue,
+      amount: roundPrice(
+        addOn.modifierType === "percentage"
+          ? (baseAmount * addOn.modifierValue) / 100
+          : addOn.modifierValue * exchangeRate
+      ),
+    })
+  );
+
+  const unitAmount = roundPrice(
+    addOns.reduce((sum, addOn) => sum + addOn.amount, baseAmount)
+  );
+
+  return {
+    unitPrice: roundPrice(unitPrice),
+    baseAmount,
+    addOns,
+    unitAmount,
+    totalPrice: roundPrice(unitAmount * quantity),
+    tier,
+  };
+};
+
+// Re-price every cart line from current product data and recalculate the
+// cart totals. Lines in changedLineIds were just edited by the customer, so
+// their new price becomes the quoted one; other lines are flagged when their
+// price has moved since. Lines that can no longer be bought are flagged and
+// left out of the total rather than failing the whole cart.
+export const repriceCart = async (
+  cart: {
+    products: (PricedLine & {
+      _id?: unknown;
+      quotedPrice?: number | null;
+      priceChanged?: boolean;
+      unavailable?: boolean;
+    })[];
+    totalQuantity: number;
+    totalPrice: number;
+  },
+  changedLineIds: string[] = []
+): Promise<void> => {
+  const productIds = cart.products.map(
+    (line) => line.product._id ?? line.product
+  );
+  const products = await Product.find({ _id: { $in: productIds } })
+    .select("name status pricePerUnit currencyPrices priceTiers addOns")
+    .lean();
+  const productMap = new Map(
+    products.map((product) => [product._id.toString(), product])
+  );
+
+  let totalQuantity = 0;
+  let totalPrice = 0;
+  for (const line of cart.products) {
+    const product = productMap.get(
+      (line.product._id ?? line.product).toString()
+    );
+
+    let price: LinePrice | null = null;
+    if (product && product.status === "active") {
+      try {
+        price = getLinePrice(product, line);
+      } catch (error) {
+        // A removed or inactive add-on makes the line unavailable
+        if (!(error instanceof CustomError)) throw error;
+      }
+    }
+
+    line.unavailable = !price;
+    if (!price) continue;
+
+    line.unitPrice = price.unitPrice;
+    line.totalPrice = price.totalPrice;
+    if (
+      line.quotedPrice === null ||
+      line.quotedPrice === undefined ||
+      changedLineIds.includes(String(line._id))
+    ) {
+      line.quotedPrice = price.totalPrice;
+    }
+    line.priceChanged = line.quotedPrice !== price.totalPrice;
+
+    totalQuantity += line.quantity;
+    totalPrice += price.totalPrice;
+  }
+
+  cart.totalQuantity = totalQuantity;
+  cart.totalPrice = roundPrice(totalPrice);
+};
+
+// Set the USD unit and total price of each line from current product data.
+// Lines may hold a product ID or a populated product.
+export const priceLines = async <T extends PricedLine>(
+  lines: T[]
+): Promise<number> => {
+  const productIds = lines.map((line) => line.product._id ?? line.product);
+  const products = await Product.find({ _id: { $in: productIds } })
+    .select("name pricePerUnit currencyPrices priceTiers addOns")
+    .lean();
+  const productMap = new Map(
+    products.map((product) => [product._id.toString(), product])
+  );
+
+  let totalPrice = 0;
+  for (const line of lines) {
+    const productId = (line.product._id ?? line.product).toString();
+    const product = productMap.get(productId);
+    if (!product) {
+      throw new CustomError(404, `Product with ID ${productId} not found.`);
+    }
+
+    const price = getLinePrice(product, line);
+    line.unitPrice = price.unitPrice;
+    line.totalPrice = price.totalPrice;
+    totalPrice += price.totalPrice;
+  }
+
+  return roundPrice(totalPrice);
+};
@@ -0,0 +1,296 @@
+import { Types } from "mongoose";
+import FormModel from "../models/form.model";
+import FormVersion from "../models/form-version.model";
+import { CustomError } from "../middlewares/error";
+import {
+  Field,
+  FieldConditionOperator,
+  FieldInputType,
+  FIELD_INPUT_TYPES,
+  FormField,
+  FormResponseValue,
+  FormVersionField,
+  FormVersionTypes,
+  ResolvedForm,
+  ResolvedFormField,
+  ResolvedFormSection,
+} from "../types/productTypes";
+
+// Input types used before the field catalogue existed
+const LEGACY_INPUT_TYPES: Record<string, FieldInputType> = {
+  email: "text",
+  tel: "text",
+  password: "text",
+  radio: "select",
+  dropdown: "select",
+  multiselect: "multi-select",
+  "multi select": "multi-select",
+  "file upload": "file",
+  fileupload: "file",
+};
+
+export const resolveInputType = (inputType?: string | null): FieldInputType => {
+  const normalized = (inputType ?? "").trim().toLowerCase();
+  if ((FIELD_INPUT_TYPES as readonly string[]).includes(normalized)) {
+    return normalized as FieldInputType;
+  }
+  return LEGACY_INPUT_TYPES[normalized] ?? "text";
+};
+
+// Field types whose answer may hold several values
+export const isMultiValueField = (field: ResolvedFormField) =>
+  field.type === "multi-select" ||
+  field.type === "file" ||
+  (field.type === "checkbox" && field.options.length > 0);
+
+type PopulatedFormField = Omit<FormField, "field"> & {
+  field: (Field & { _id: Types.ObjectId }) | null;
+};
+
+// Snapshot a form's current layout and field definitions as its next
+// version. Products pinned to earlier versions keep using those.
+export const publishFormVersion = async (
+  formId: Types.ObjectId | string,
+  userId?: string | null
+): Promise<FormVersionTypes> => {
+  const form = await FormModel.findById(formId)
+    .populate<{ fields: PopulatedFormField[] }>("fields.field")
+    .lean();
+  if (!form) {
+    throw new CustomError(404, "Form not found");
+  }
+
+  const hasDeletedFields = form.fields.some(
+    (formField) => !formField.field || formField.field.deletedAt
+  );
+  if (hasDeletedFields) {
+    throw new CustomError(
+      400,
+      "The form refers to fields that have been deleted"
+    );
+  }
+
+  const fields: FormVersionField[] = form.fields.map((formField) => {
+    const field = formField.field!;
+    return {
+      field: field._id,
+      fieldOrder: formField.fieldOrder,
+      section: formField.section ?? null,
+      conditions: formField.conditions ?? [],
+      conditionLogic: formField.conditionLogic ?? "all",
+      name: field.name,
+      label: field.label,
+      inputType: resolveInputType(field.inputType),
+      inputMinLength: field.inputMinLength ?? null,
+      inputMaxLength: field.inputMaxLength ?? null,
+      inputMin: field.inputMin ?? null,
+      inputMax: field.inputMax ?? null,
+      inputPlaceholder: field.inputPlaceholder ?? null,
+      inputValidationPattern: field.inputValidationPattern ?? null,
+      inputRequired: field.inputRequired,
+      customClassName: field.customClassName ?? null,
+      multipleOptions: field.multipleOptions ?? [],
+    };
+  });
+
+  // The unique (formId, version) index rejects a concurrent publish
+  const version = (form.currentVersion ?? 0) + 1;
+  const formVersion = await FormVersion.create({
+    formId: form._id,
+    version,
+    title: form.title,
+    sections: form.sections ?? [],
+    fields,
+    createdBy: userId ?? null,
+  });
+  await FormModel.updateOne(
+    { _id: form._id, currentVersion: { $lt: version } },
+    { currentVersion: version }
+  );
+
+  return formVersion.toObject();
+};
+
+// Load a version of an active form and resolve it into the schema the
+// storefront renders. Without a version, the form's latest is used.
+// Returns null when the form or version is missing, or the form is inactive.
+export const resolveProductForm = async (
+  formId: Types.ObjectId | string | null | undefined,
+  version?: number | null
+): Promise<ResolvedForm | null> => {
+  if (!formId) return null;
+
+  const form = await FormModel.findOne({ _id: formId, status: "active" })
+    .select("currentVersion")
+    .lean();
+  if (!form) return null;
+
+  // Forms created before versioning are published on first use
+  let formVersion;
+  if (!version && !form.currentVersion) {
+    formVersion = await publishFormVersion(form._id);
+  } else {
+    formVersion = await FormVersion.findOne({
+      formId: form._id,
+      version: version || form.currentVersion,
+    }).lean();
+  }
+  if (!formVersion) return null;
+
+  const formFields = [...formVersion.fields].sort(
+    (a, b) => a.fieldOrder - b.fieldOrder
+  );
+
+  const fieldNames = new Map(
+    formFields.map((field) => [field.field.toString(), field.name])
+  );
+
+  const toResolvedField = (field: FormVersionField): ResolvedFormField => {
+    const conditions = (field.conditions ?? [])
+      .filter((condition) => fieldNames.has(condition.field.toString()))
+      .map((condition) => ({
+        field: fieldNames.get(condition.field.toString())!,
+        operator: condition.operator,
+        value: condition.value ?? null,
+      }));
+
+    const resolved: ResolvedFormField = {
+      id: field.field,
+      name: field.name,
+      label: field.label,
+      type: resolveInputType(field.inputType),
+      required: field.inputRequired,
+      placeholder: field.inputPlaceholder ?? null,
+      className: field.customClassName ?? null,
+      minLength: field.inputMinLength ?? null,
+      maxLength: field.inputMaxLength ?? null,
+      min: field.inputMin ?? null,
+      max: field.inputMax ?? null,
+      pattern: field.inputValidationPattern ?? null,
+      options: (field.multipleOptions ?? []).map(({ value, name }) => ({
+        value,
+        name,
+      })),
+      multiple: false,
+      visibleWhen:
+        conditions.length > 0
+          ? { logic: field.conditionLogic ?? "all", conditions }
+          : null,
+    };
+    resolved.multiple = isMultiValueField(resolved);
+    return resolved;
+  };
+
+  // Fields without a known section are listed first, outside any section
+  const sectionDefs = [...(formVersion.sections ?? [])].sort(
+    (a, b) => a.sectionOrder - b.sectionOrder
+  );
+  const sectionKeys = new Set(sectionDefs.map((section) => section.key));
+
+  const sections: ResolvedFormSection[] = [];
+  const unsectioned = formFields.filter(
+    (field) => !field.section || !sectionKeys.has(field.section)
+  );
+  if (unsectioned.length > 0) {
+    sections.push({
+      key: null,
+      title: null,
+      description: null,
+      fields: unsectioned.map(toResolvedField),
+    });
+  }
+  for (const section of sectionDefs) {
+    sections.push({
+      key: section.key,
+      title: section.title,
+      description: section.description ?? null,
+      fields: formFields
+        .filter((field) => field.section === section.key)
+        .map(toResolvedField),
+    });
+  }
+
+  return {
+    formId: form._id,
+    version: formVersion.version,
+    title: formVersion.title,
+    sections,
+  };
+};
+
+// Every field of a resolved form, in display order
+export const getResolvedFields = (form: ResolvedForm): ResolvedFormField[] =>
+  form.sections.flatMap((section) => section.fields);
+
+// Whether an answer counts as not given, for both conditions and validation
+export const isEmptyAnswer = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+const matchesCondition = (
+  operator: FieldConditionOperator,
+  answer: unknown,
+  expected: string | string[] | null
+) => {
+  const answers = isEmptyAnswer(answer)
+    ? []
+    : (Array.isArray(answer) ? answer : [answer]).map(String);
+  const expectedValues = (Array.isArray(expected) ? expected : [expected])
+    .filter((value) => value !== null && value !== undefined)
+    .map(String);
+
+  switch (operator) {
+    case "isEmpty":
+      return answers.length === 0;
+    case "isNotEmpty":
+      return answers.length > 0;
+    case "equals":
+    case "in":
+      return answers.some((value) => expectedValues.includes(value));
+    case "notEquals":
+    case "notIn":
+      return !answers.some((value) => expectedValues.includes(value));
+    default:
+      return false;
+  }
+};
+
+// Names of the fields shown for a set of answers. A field hidden by its
+// rules counts as unanswered, so fields that depend on it are hidden too.
+export const getVisibleFieldNames = (
+  fields: ResolvedFormField[],
+  answers: Record<string, FormResponseValue | unknown>
+): Set<string> => {
+  let visible = new Set(fields.map((field) => field.name));
+
+  // Re-evaluate until the visible set stops changing; the pass limit guards
+  // against rules that contradict each other
+  for (let pass = 0; pass < fields.length; pass++) {
+    const next = new Set(
+      fields
+        .filter((field) => {
+          if (!field.visibleWhen) return true;
+          const results = field.visibleWhen.conditions.map((condition) =>
+            matchesCondition(
+              condition.operator,
+              visible.has(condition.field) ? answers[condition.field] : undefined,
+              condition.value
+            )
+          );
+          return field.visibleWhen.logic === "any"
+            ? results.some(Boolean)
+            : results.every(Boolean);
+        })
+        .map((field) => field.name)
+    );
+    const settled =
+      next.size === visible.size &&
+      [...next].every((name) => visible.has(name));
+    visible = next;
+    if (settled) break;
+  }
+
+  return visible;
+};
@@ -0,0 +1,648 @@
+import { Types } from "mongoose";
+import Coupon from "../models/coupon.model";
+import Order from "../models/orderModel";
+import User from "../models/user.model";
+import { CustomError } from "../middlewares/error";
+import { roundPrice } from "./pricing.service";
+import {
+  AppliedPromotion,
+  CouponTypes,
+  LineDiscount,
+  PromotionResult,
+} from "../types/coupon.types";
+
+type Promotion = CouponTypes & { _id: Types.ObjectId };
+
+// What the targeting rules need to know about the signed-in customer
+interface PromotionCustomer {
+  userId: string;
+  email: string;
+  role: Types.ObjectId | null;
+  hasPaidOrder: boolean;
+}
+
+// A cart line as the promotion engine sees it; the product is populated
+// when category promotions need its category
+export interface PromotionLine {
+  _id?: Types.ObjectId | string;
+  product: any;
+  quantity: number;
+  wordCount?: number;
+  totalPrice: number;
+}
+
+// Helper function to validate discount against minimum order amount
+export const validateDiscountVsMinOrder = (coupon: any) => {
+  if (coupon.minOrderAmount && coupon.discountType === "flat") {
+    if (coupon.discountValue > coupon.minOrderAmount) {
+      throw new CustomError(
+        400,
+        `Discount value ($${coupon.discountValue}) cannot exceed the minimum order amount ($${coupon.minOrderAmount}) for a flat discount coupon`
+      );
+    }
+  }
+};
+
+// Helper function to calculate discount
+export const calculateDiscount = (
+  coupon: any,
+  cartData: {
+    products: {
+      product:
+        | Types.ObjectId
+        | { _id: Types.ObjectId; category: Types.ObjectId };
+      quantity: number;
+      wordCount: number;
+      totalPrice: number;
+      [key: string]: any;
+    }[];
+    totalPrice: number;
+    totalQuantity: number;
+  }
+): {
+  discount: number;
+  discountedTotal: number;
+  appliedTo?: Types.ObjectId[];
+} => {
+  let discount = 0;
+  let discountedTotal = cartData.totalPrice;
+  let appliedTo: Types.ObjectId[] = [];
+
+  // Validate discount vs minimum order amount
+  validateDiscountVsMinOrder(coupon);
+
+  // Filter products based on couponApplicableOn
+  let eligibleProducts = cartData.products;
+  if (coupon.couponApplicableOn === "specificProducts") {
+    eligibleProducts = cartData.products.filter((p) =>
+      coupon.specificProducts.some((sp: Types.ObjectId) =>
+        sp.equals(typeof p.product === "object" ? p.product._id : p.product)
+      )
+    );
+  } else if (coupon.couponApplicableOn === "productCategories") {
+    eligibleProducts = cartData.products.filter((p) =>
+      coupon.productCategories.some((cat: Types.ObjectId) =>
+        cat.equals(
+          typeof p.product === "object" && "category" in p.product
+            ? p.product.category
+            : p.product
+        )
+      )
+    );
+  }
+
+  if (
+    (coupon.couponApplicableOn === "specificProducts" ||
+      coupon.couponApplicableOn === "productCategories") &&
+    eligibleProducts.length === 0
+  ) {
+    throw new CustomError(
+      400,
+      `No qualifying products found for coupon "${coupon.code}"`
+    );
+  }
+
+  // Special handling for 100% off coupons (percentage only)
+  if (coupon.discountType === "percentage" && coupon.discountValue === 100) {
+    const qualifyingProducts = eligibleProducts.filter(
+      (product) =>
+        !coupon.maxWordCount || product.wordCount <= coupon.maxWordCount
+    );
+
+    if (qualifyingProducts.length === 0) {
+      throw new CustomError(
+        400,
+        coupon.maxWordCount
+          ? `Coupon "${coupon.code}" requires items with ≤ ${coupon.maxWordCount} words`
+          : `No items qualify for coupon "${coupon.code}"`
+      );
+    }
+
+    const productToDiscount = qualifyingProducts.reduce((lowest, current) =>
+      current.totalPrice < lowest.totalPrice ? current : lowest
+    );
+
+    if (productToDiscount.quantity !== 1) {
+      throw new CustomError(
+        400,
+        `"${coupon.code}" applies to single-item purchases only. Please remove other items and set quantity to 1 to enjoy this discount.`
+      );
+    }
+
+    discount = productToDiscount.totalPrice;
+    discountedTotal = cartData.totalPrice - discount;
+    appliedTo = [
+      typeof productToDiscount.product === "object"
+        ? productToDiscount.product._id
+        : productToDiscount.product,
+    ];
+
+    return { discount, discountedTotal, appliedTo };
+  }
+
+  // Check couponType
+  if (coupon.couponType === "quantityBased") {
+    const hasEnoughQuantity = eligibleProducts.some(
+      (p) => p.quantity >= (coupon.minQuantity || 1)
+    );
+    if (!hasEnoughQuantity) {
+      throw new CustomError(
+        400,
+        `Minimum quantity of ${coupon.minQuantity} required for coupon "${coupon.code}"`
+      );
+    }
+  }
+
+  // Calculate discount based on discountType
+  const eligibleTotal = eligibleProducts.reduce(
+    (sum, p) => sum + p.totalPrice,
+    0
+  );
+  if (coupon.discountType === "percentage") {
+    if (cartData.totalPrice < (coupon.minOrderAmount || 0)) {
+      throw new CustomError(400, "Minimum order amount not met");
+    }
+    discount = (eligibleTotal * coupon.discountValue) / 100;
+    discount = Math.min(discount, coupon.maxDiscountAmount || Infinity);
+  } else if (coupon.discountType === "flat") {
+    if (cartData.totalPrice < (coupon.minOrderAmount || 0)) {
+      throw new CustomError(400, "Minimum order amount not met");
+    }
+    discount = coupon.discountValue;
+    discount = Math.min(discount, coupon.maxDiscountAmount || Infinity);
+  } else {
+    throw new CustomError(400, "Invalid discount type");
+  }
+
+  appliedTo = eligibleProducts.map((p) =>
+    typeof p.product === "object" ? p.product._id : p.product
+  );
+  discountedTotal = Math.max(0, cartData.totalPrice - discount);
+  return { discount, discountedTotal, appliedTo };
+};
+
+const getProductId = (line: PromotionLine): Types.ObjectId =>
+  line.product?._id ?? line.product;
+
+// Whether a line is covered by what the promotion applies to
+const isEligibleLine = (promotion: Promotion, line: PromotionLine) => {
+  if (promotion.couponApplicableOn === "specificProducts") {
+    return (promotion.specificProducts ?? []).some((id) =>
+      id.equals(getProductId(line))
+    );
+  }
+  if (promotion.couponApplicableOn === "productCategories") {
+    const category = line.product?.category;
+    return (
+      !!category &&
+      (promotion.productCategories ?? []).some((id) => id.equals(category))
+    );
+  }
+  return true;
+};
+
+// Spread an amount over lines in proportion to their weights, to the cent.
+// The last line takes the rounding difference.
+const distributeAmount = (
+  amount: number,
+  weights: { index: number; weight: number }[]
+): Map<number, number> => {
+  const shares = new Map<number, number>();
+  const positive = weights.filter((entry) => entry.weight > 0);
+  const totalWeight = positive.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0 || amount <= 0) return shares;
+
+  let allocated = 0;
+  positive.forEach((entry, position) => {
+    const share =
+      position === positive.length - 1
+        ? roundPrice(amount - allocated)
+        : roundPrice((amount * entry.weight) / totalWeight);
+    allocated = roundPrice(allocated + share);
+    shares.set(entry.index, share);
+  });
+  return shares;
+};
+
+const isTargeted = (promotion: Promotion) =>
+  !!promotion.targetUsers?.length ||
+  !!promotion.targetRoles?.length ||
+  !!promotion.emailDomains?.length ||
+  !!promotion.targetEmails?.length ||
+  (promotion.customerType ?? "all") !== "all" ||
+  !!promotion.firstOrderOnly;
+
+// Helper to check the validity window, limits and targeting of a promotion
+const assertPromotionUsable = (
+  promotion: Promotion,
+  customer: PromotionCustomer | null,
+  now: Date
+) => {
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw new CustomError(
+      400,
+      `Coupon "${promotion.code}" is valid from ${promotion.startsAt.toISOString()}`
+    );
+  }
+  if (promotion.endsAt && promotion.endsAt <= now) {
+    throw new CustomError(400, `Coupon "${promotion.code}" has expired`);
+  }
+
+  // Uses held by unpaid orders count towards the limits
+  const reservations = promotion.reservations ?? [];
+  if (
+    (promotion.usedCount ?? 0) + reservations.length >=
+    (promotion.totalUsageLimit ?? 0)
+  ) {
+    throw new CustomError(
+      400,
+      `Coupon "${promotion.code}" has reached its usage limit`
+    );
+  }
+
+  if (customer) {
+    const userUsage = promotion.userUsage?.find(
+      (usage) => usage.userId.toString() === customer.userId
+    );
+    const userReservations = reservations.filter(
+      (reservation) => reservation.userId.toString() === customer.userId
+    ).length;
+    if (
+      (userUsage?.usageCount ?? 0) + userReservations >=
+      (promotion.usageLimitPerUser ?? 0)
+    ) {
+      throw new CustomError(
+        400,
+        `You've reached the usage limit for coupon "${promotion.code}"`
+      );
+    }
+  }
+
+  if (!isTargeted(promotion)) return;
+  if (!customer) {
+    throw new CustomError(
+      400,
+      `Please sign in to use coupon "${promotion.code}"`
+    );
+  }
+
+  const notEligible = new CustomError(
+    400,
+    `Coupon "${promotion.code}" is not available for your account`
+  );
+  if (
+    promotion.targetUsers?.length &&
+    !promotion.targetUsers.some((id) => id.toString() === customer.userId)
+  ) {
+    throw notEligible;
+  }
+  if (
+    promotion.targetRoles?.length &&
+    !promotion.targetRoles.some(
+      (id) => customer.role && id.equals(customer.role)
+    )
+  ) {
+    throw notEligible;
+  }
+  if (promotion.emailDomains?.length) {
+    const domain = customer.email.split("@").pop()!.toLowerCase();
+    const matches = promotion.emailDomains.some(
+      (allowed) => domain === allowed || domain.endsWith(`.${allowed}`)
+    );
+    if (!matches) throw notEligible;
+  }
+  if (
+    promotion.targetEmails?.length &&
+    !promotion.targetEmails.includes(customer.email.toLowerCase())
+  ) {
+    throw notEligible;
+  }
+
+  if (
+    (promotion.firstOrderOnly || promotion.customerType === "new") &&
+    customer.hasPaidOrder
+  ) {
+    throw new CustomError(
+      400,
+      `Coupon "${promotion.code}" is only valid on your first order`
+    );
+  }
+  if (promotion.customerType === "returning" && !customer.hasPaidOrder) {
+    throw new CustomError(
+      400,
+      `Coupon "${promotion.code}" is for returning customers`
+    );
+  }
+};
+
+// Helper to work out one promotion's discount on each line, given what is
+// still left to pay on the lines. Throws when the promotion does not apply.
+const getPromotionDiscounts = (
+  promotion: Promotion,
+  lines: PromotionLine[],
+  remaining: number[],
+  subtotal: number
+): Map<number, number> => {
+  const eligible = lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => isEligibleLine(promotion, line));
+  const cap = promotion.maxDiscountAmount || Infinity;
+
+  switch (promotion.discountType) {
+    case "buyXGetY": {
+      if (subtotal < (promotion.minOrderAmount || 0)) {
+        throw new CustomError(400, "Minimum order amount not met");
+      }
+
+      // Units are grouped from the most expensive down, so the discounted
+      // units of each group are its cheapest
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const units = eligible
+        .flatMap(({ line, index }) =>
+          Array.from({ length: line.quantity }, () => ({
+            index,
+            price: remaining[index] / line.quantity,
+          }))
+        )
+        .sort((a, b) => b.price - a.price);
+      const groups = Math.floor(units.length / (buy + get));
+      if (groups === 0) {
+        throw new CustomError(
+          400,
+          `Add ${buy + get} qualifying items to use coupon "${promotion.code}"`
+        );
+      }
+
+      const perLine = new Map<number, number>();
+      for (let group = 0; group < groups; group++) {
+        const start = group * (buy + get) + buy;
+        for (const unit of units.slice(start, start + get)) {
+          perLine.set(
+            unit.index,
+            (perLine.get(unit.index) ?? 0) +
+              (unit.price * (promotion.getDiscountPercent ?? 100)) / 100
+          );
+        }
+      }
+      const weights = [...perLine].map(([index, weight]) => ({ index, weight }));
+      const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+      return distributeAmount(Math.min(total, cap), weights);
+    }
+
+    case "tieredSpend": {
+      const eligibleTotal = eligible.reduce(
+        (sum, { index }) => sum + remaining[index],
+        0
+      );
+      const tiers = [...(promotion.spendTiers ?? [])].sort(
+        (a, b) => b.minSpend - a.minSpend
+      );
+      const tier = tiers.find((entry) => entry.minSpend <= eligibleTotal);
+      if (eligible.length === 0 || !tier) {
+        const lowest = tiers[tiers.length - 1];
+        throw new CustomError(
+          400,
+          `Spend at least $${lowest?.minSpend ?? 0} on qualifying products to use coupon "${promotion.code}"`
+        );
+      }
+
+      const amount =
+        tier.discountType === "percentage"
+          ? (eligibleTotal * tier.discountValue) / 100
+          : tier.discountValue;
+      return distributeAmount(
+        Math.min(amount, cap, eligibleTotal),
+        eligible.map(({ index }) => ({ index, weight: remaining[index] }))
+      );
+    }
+
+    default: {
+      // Percentage and flat discounts keep their original rules
+      const { discount, appliedTo = [] } = calculateDiscount(promotion, {
+        products: lines.map((line, index) => ({
+          product: line.product,
+          quantity: line.quantity,
+          wordCount: line.wordCount ?? 0,
+          totalPrice: remaining[index],
+        })),
+        totalPrice: subtotal,
+        totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+      });
+
+      const applied = eligible.filter(({ line }) =>
+        appliedTo.some((id) => id.equals(getProductId(line)))
+      );
+      const appliedTotal = applied.reduce(
+        (sum, { index }) => sum + remaining[index],
+        0
+      );
+      return distributeAmount(
+        Math.min(discount, appliedTotal),
+        applied.map(({ index }) => ({ index, weight: remaining[index] }))
+      );
+    }
+  }
+};
+
+// Helper to apply promotions one after another, each on what is left to pay
+// after the ones before it. Codes the customer entered must apply;
+// automatic promotions that do not are skipped.
+const applyPromotions = (
+  promotions: Promotion[],
+  lines: PromotionLine[],
+  subtotal: number
+) => {
+  const remaining = lines.map((line) => line.totalPrice);
+  const applied: { promotion: Promotion; discounts: Map<number, number> }[] =
+    [];
+
+  for (const promotion of promotions) {
+    let discounts: Map<number, number>;
+    try {
+      discounts = getPromotionDiscounts(promotion, lines, remaining, subtotal);
+    } catch (error) {
+      if (promotion.isAutomatic && error instanceof CustomError) continue;
+      throw error;
+    }
+
+    let total = 0;
+    for (const [index, amount] of discounts) {
+      remaining[index] = roundPrice(remaining[index] - amount);
+      total += amount;
+    }
+    if (total > 0) applied.push({ promotion, discounts });
+  }
+
+  return {
+    applied,
+    discount: roundPrice(subtotal - remaining.reduce((a, b) => a + b, 0)),
+  };
+};
+
+// Helper to load what targeted promotions need about the customer. Paid
+// orders are only looked up when a promotion depends on them.
+const getPromotionCustomer = async (
+  userId: string | null | undefined,
+  targeted: Promotion[]
+): Promise<PromotionCustomer | null> => {
+  if (!userId) return null;
+
+  const needsOrders = targeted.some(
+    (promotion) =>
+      promotion.firstOrderOnly || (promotion.customerType ?? "all") !== "all"
+  );
+  const [user, paidOrder] = await Promise.all([
+    User.findById(userId)
+      .select("email role")
+      .lean<{ email: string; role: Types.ObjectId | null }>(),
+    needsOrders ? Order.exists({ userId, paymentStatus: "Paid" }) : null,
+  ]);
+  if (!user) return null;
+
+  return {
+    userId,
+    email: user.email,
+    role: user.role ?? null,
+    hasPaidOrder: !!paidOrder,
+  };
+};
+
+const isExclusive = (promotion: Promotion) =>
+  (promotion.stacking ?? "exclusive") === "exclusive";
+
+// Work out every promotion that applies to a cart: the codes the customer
+// entered plus automatic promotions. Exclusive promotions never combine with
+// another one. An exclusive code is applied on its own; otherwise the
+// stackable promotions are applied together by priority, and without codes
+// each exclusive automatic promotion is also tried on its own, keeping
+// whichever saves the customer most. Returns the discount on every line.
+export const evaluatePromotions = async (
+  lines: PromotionLine[],
+  options: { codes?: unknown[]; userId?: string | null } = {}
+): Promise<PromotionResult> => {
+  const { userId } = options;
+  const subtotal = roundPrice(
+    lines.reduce((sum, line) => sum + line.totalPrice, 0)
+  );
+  const codes = [
+    ...new Set(
+      (options.codes ?? [])
+        .filter((code) => typeof code === "string" && code.trim())
+        .map((code) => (code as string).trim().toUpperCase())
+    ),
+  ];
+
+  // Entered codes outside their window get a specific message below
+  const now = new Date();
+  const [coded, automatic] = await Promise.all([
+    codes.length > 0
+      ? Coupon.find({ status: "Active", code: { $in: codes } }).lean<
+          Promotion[]
+        >()
+      : [],
+    Coupon.find({
+      status: "Active",
+      isAutomatic: true,
+      code: { $nin: codes },
+      $and: [
+        { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+        { $or: [{ endsAt: null }, { endsAt: { $gt: now } }] },
+      ],
+    }).lean<Promotion[]>(),
+  ]);
+
+  const unknownCode = codes.find(
+    (code) => !coded.some((promotion) => promotion.code === code)
+  );
+  if (unknownCode) {
+    throw new CustomError(404, `Invalid or expired coupon "${unknownCode}"`);
+  }
+  const exclusiveCode = coded.find(isExclusive);
+  if (exclusiveCode && coded.length > 1) {
+    throw new CustomError(
+      400,
+      `Coupon "${exclusiveCode.code}" cannot be combined with other coupons`
+    );
+  }
+
+  const customer = await getPromotionCustomer(
+    userId,
+    [...coded, ...automatic].filter(isTargeted)
+  );
+
+  coded.forEach((promotion) => {
+    // Entered codes are applied whether or not they are marked automatic
+    promotion.isAutomatic = false;
+    assertPromotionUsable(promotion, customer, now);
+  });
+  const usableAutomatic = automatic.filter((promotion) => {
+    try {
+      assertPromotionUsable(promotion, customer, now);
+      return true;
+    } catch (error) {
+      if (error instanceof CustomError) return false;
+      throw error;
+    }
+  });
+
+  const byPriority = (a: Promotion, b: Promotion) =>
+    (b.priority ?? 0) - (a.priority ?? 0);
+  const combinations: Promotion[][] = exclusiveCode
+    ? [[exclusiveCode]]
+    : [
+        [...coded, ...usableAutomatic.filter((p) => !isExclusive(p))].sort(
+          byPriority
+        ),
+        ...(coded.length === 0
+          ? usableAutomatic.filter(isExclusive).map((p) => [p])
+          : []),
+      ];
+
+  let best: ReturnType<typeof applyPromotions> | null = null;
+  for (const combination of combinations) {
+    const outcome = applyPromotions(combination, lines, subtotal);
+    if (!best || outcome.discount > best.discount) best = outcome;
+  }
+  const applied = best?.applied ?? [];
+
+  const promotions: AppliedPromotion[] = applied.map(
+    ({ promotion, discounts }) => ({
+      coupon: promotion._id,
+      code: promotion.code,
+      discountType: promotion.discountType,
+      automatic: !!promotion.isAutomatic,
+      discount: roundPrice([...discounts.values()].reduce((a, b) => a + b, 0)),
+    })
+  );
+
+  const lineDiscounts: LineDiscount[] = lines.map((line, index) => {
+    const linePromotions = applied
+      .filter(({ discounts }) => discounts.has(index))
+      .map(({ promotion, discounts }) => ({
+        coupon: promotion._id,
+        code: promotion.code,
+        amount: discounts.get(index)!,
+      }));
+    const discount = roundPrice(
+      linePromotions.reduce((sum, entry) => sum + entry.amount, 0)
+    );
+    return {
+      lineId: line._id ? String(line._id) : null,
+      product: getProductId(line),
+      totalPrice: line.totalPrice,
+      discount,
+      finalPrice: roundPrice(line.totalPrice - discount),
+      promotions: linePromotions,
+    };
+  });
+
+  const discount = best?.discount ?? 0;
+  return {
+    subtotal,
+    discount,
+    total: roundPrice(subtotal - discount),
+    promotions,
+    lines: lineDiscounts,
+  };
+};
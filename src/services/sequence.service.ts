@@ -0,0 +1,80 @@
+import Counter from "../models/counter.model";
+import { SequenceName } from "../types/counter.types";
+
+// Formats support {YYYY}, {YY}, {MM}, {DD} and {SEQ:n}, where n is the
+// zero-padded width of the counter. The counter restarts whenever the
+// rendered text around {SEQ} changes, so a format containing {YYYY}
+// gives a per-year sequence.
+const DEFAULT_FORMATS: Record<SequenceName, string> = {
+  order: "AD-{YYYY}-{SEQ:6}",
+  invoice: "INV-{YYYY}-{SEQ:6}",
+  ticket: "ADTKT-{SEQ:2}",
+};
+
+const FORMAT_ENV_KEYS: Record<SequenceName, string> = {
+  order: "ORDER_NUMBER_FORMAT",
+  invoice: "INVOICE_NUMBER_FORMAT",
+  ticket: "TICKET_ID_FORMAT",
+};
+
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/;
+
+const getFormat = (name: SequenceName): string => {
+  const format = process.env[FORMAT_ENV_KEYS[name]] || DEFAULT_FORMATS[name];
+  if (!SEQ_TOKEN.test(format)) {
+    throw new Error(`${FORMAT_ENV_KEYS[name]} must contain a {SEQ} token`);
+  }
+  return format;
+};
+
+// Replace the date tokens, leaving {SEQ} in place
+const renderDateTokens = (format: string, date: Date): string =>
+  format
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear()).slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, "0"))
+    .replace(/\{DD\}/g, String(date.getDate()).padStart(2, "0"));
+
+// Atomically increment and return the counter for a key. When the counter
+// does not exist yet, `seed` supplies the last value already in use.
+const incrementCounter = async (
+  key: string,
+  seed?: () => Promise<number>
+): Promise<number> => {
+  if (seed && !(await Counter.exists({ key }))) {
+    const start = await seed();
+    try {
+      await Counter.updateOne(
+        { key },
+        { $setOnInsert: { seq: start } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // Another request created the counter first
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  const counter = await Counter.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true }
+  );
+  return counter!.seq;
+};
+
+// Generate the next formatted number for a sequence, e.g. AD-2026-000123
+export const nextSequenceNumber = async (
+  name: SequenceName,
+  options: { date?: Date; seed?: (prefix: string) => Promise<number> } = {}
+): Promise<string> => {
+  const format = renderDateTokens(getFormat(name), options.date ?? new Date());
+  const [token, width] = format.match(SEQ_TOKEN)!;
+  const key = `${name}:${format.replace(token, "")}`;
+
+  const seq = await incrementCounter(
+    key,
+    options.seed && (() => options.seed!(format.split(token)[0]))
+  );
+  return format.replace(token, String(seq).padStart(Number(width ?? 0), "0"));
+};
@@ -0,0 +1,197 @@
+import { randomInt } from "crypto";
+import { Types } from "mongoose";
+import CreditEntry from "../models/credit-entry.model";
+import GiftCard from "../models/gift-card.model";
+import { CustomError } from "../middlewares/error";
+import { roundPrice } from "./pricing.service";
+import { CreditAllocation, CreditSource } from "../types/store-credit.types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Letters and digits that cannot be misread for each other
+const GIFT_CARD_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+// Credits that can still be spent, soonest to expire first
+const getSpendableCredits = async (userId: string, now: Date) => {
+  const credits = await CreditEntry.find({
+    userId,
+    type: "credit",
+    remaining: { $gt: 0 },
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+  })
+    .select("remaining expiresAt createdAt")
+    .lean();
+
+  return credits.sort(
+    (a, b) =>
+      (a.expiresAt?.getTime() ?? Infinity) -
+        (b.expiresAt?.getTime() ?? Infinity) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+};
+
+// A customer's spendable store credit in USD
+export const getCreditBalance = async (
+  userId: string,
+  now = new Date()
+): Promise<number> => {
+  const credits = await getSpendableCredits(userId, now);
+  return roundPrice(credits.reduce((sum, credit) => sum + credit.remaining, 0));
+};
+
+// Add credit to a customer's ledger
+export const addCredit = async (entry: {
+  userId: string | Types.ObjectId;
+  amount: number;
+  source: CreditSource;
+  reason: string;
+  expiresAt?: Date | null;
+  orderId?: Types.ObjectId | string | null;
+  ticketId?: Types.ObjectId | string | null;
+  giftCardId?: Types.ObjectId | null;
+  createdBy?: string | null;
+}) => {
+  const amount = roundPrice(entry.amount);
+  return CreditEntry.create({
+    ...entry,
+    type: "credit",
+    amount,
+    remaining: amount,
+  });
+};
+
+// Spend up to `amount` of a customer's credit, soonest-expiring first, and
+// record it as one debit. Each credit is taken from with a single update, so
+// concurrent checkouts can't spend the same credit twice. Returns what was
+// spent, which is less than asked when the balance is lower.
+export const spendCredit = async (
+  userId: string,
+  amount: number,
+  details: {
+    source: CreditSource;
+    reason: string;
+    orderId?: Types.ObjectId | null;
+    ticketId?: Types.ObjectId | string | null;
+    createdBy?: string | null;
+  }
+): Promise<number> => {
+  const now = new Date();
+  const allocations: CreditAllocation[] = [];
+  let left = roundPrice(amount);
+
+  for (const credit of await getSpendableCredits(userId, now)) {
+    if (left <= 0) break;
+
+    const take = roundPrice(Math.min(credit.remaining, left));
+    const taken = await CreditEntry.updateOne(
+      { _id: credit._id, remaining: { $gte: take } },
+      { $inc: { remaining: -take } }
+    );
+    if (taken.modifiedCount === 0) continue;
+
+    allocations.push({ creditId: credit._id, amount: take });
+    left = roundPrice(left - take);
+  }
+
+  const spent = roundPrice(amount - left);
+  if (spent > 0) {
+    await CreditEntry.create({
+      ...details,
+      userId,
+      type: "debit",
+      amount: spent,
+      allocations,
+    });
+  }
+  return spent;
+};
+
+// Give back the credit spent on an order, to the credits it came from. Used
+// when an unpaid order's checkout expires, the order is cancelled or it is
+// refunded in full. Returns the amount given back.
+export const restoreOrderCredit = async (
+  orderId: Types.ObjectId
+): Promise<number> => {
+  const debits = await CreditEntry.find({
+    orderId,
+    type: "debit",
+    reversedAt: null,
+  }).lean();
+
+  let restored = 0;
+  for (const debit of debits) {
+    // Claim the debit first so it is only given back once
+    const claimed = await CreditEntry.updateOne(
+      { _id: debit._id, reversedAt: null },
+      { reversedAt: new Date() }
+    );
+    if (claimed.modifiedCount === 0) continue;
+
+    for (const allocation of debit.allocations) {
+      await CreditEntry.updateOne(
+        { _id: allocation.creditId },
+        { $inc: { remaining: allocation.amount } }
+      );
+    }
+    restored += debit.amount;
+  }
+
+  return roundPrice(restored);
+};
+
+// Generate a gift card code such as GC-ABCD-EFGH-JKLM
+export const generateGiftCardCode = () =>
+  `GC-${Array.from({ length: 3 }, () =>
+    Array.from(
+      { length: 4 },
+      () => GIFT_CARD_ALPHABET[randomInt(GIFT_CARD_ALPHABET.length)]
+    ).join("")
+  ).join("-")}`;
+
+// Load a gift card onto a customer's ledger. The card is claimed with a
+// single update so it can only be redeemed once.
+export const redeemGiftCard = async (code: string, userId: string) => {
+  const now = new Date();
+  const giftCard = await GiftCard.findOneAndUpdate(
+    {
+      code: code.trim().toUpperCase(),
+      status: "Active",
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+    },
+    { status: "Redeemed", redeemedBy: userId, redeemedAt: now },
+    { new: true }
+  );
+  if (!giftCard) {
+    throw new CustomError(404, "Invalid, expired or already redeemed gift card");
+  }
+
+  return addCredit({
+    userId,
+    amount: giftCard.amount,
+    source: "giftCard",
+    reason: `Gift card ${giftCard.code}`,
+    giftCardId: giftCard._id,
+    expiresAt: giftCard.creditValidDays
+      ? new Date(now.getTime() + giftCard.creditValidDays * DAY_MS)
+      : null,
+  });
+};
+
+// Undo a redemption made during a checkout that then failed, so the card can
+// be used again. Once any of its credit has been spent the card stays
+// redeemed and the customer keeps the rest as credit.
+export const undoGiftCardRedemption = async (credit: {
+  _id: Types.ObjectId;
+  amount: number;
+  giftCardId?: Types.ObjectId | null;
+}): Promise<void> => {
+  const removed = await CreditEntry.deleteOne({
+    _id: credit._id,
+    remaining: credit.amount,
+  });
+  if (removed.deletedCount === 0) return;
+
+  await GiftCard.updateOne(
+    { _id: credit.giftCardId, status: "Redeemed" },
+    { status: "Active", redeemedBy: null, redeemedAt: null }
+  );
+};
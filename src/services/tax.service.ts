@@ -0,0 +1,75 @@
+import TaxRule from "../models/tax-rule.model";
+import { SELLER_DETAILS } from "../utils/globals";
+import { BillingAddress, TaxBreakdown, TaxLine } from "../types/tax.types";
+
+const NO_TAX: TaxBreakdown = {
+  taxRegime: "None",
+  taxLines: [],
+  taxAmount: 0,
+  reverseCharge: false,
+};
+
+const roundAmount = (value: number) => Number(value.toFixed(2));
+
+// Tax due on an amount (USD, after discounts) for a customer's billing
+// details. Countries without an active tax rule are not taxed.
+//
+// GST is split into CGST and SGST when the customer is in the seller's
+// own state, and charged as IGST otherwise.
+export const calculateTax = async (
+  taxableAmount: number,
+  billingAddress?: BillingAddress | null,
+  taxId?: string | null
+): Promise<TaxBreakdown> => {
+  const country = billingAddress?.country?.toUpperCase();
+  if (!country || taxableAmount <= 0) return NO_TAX;
+
+  const rule = await TaxRule.findOne({ country, status: "active" }).lean();
+  if (!rule) return NO_TAX;
+
+  if (rule.reverseChargeWithTaxId && taxId) {
+    return { ...NO_TAX, taxRegime: rule.regime, reverseCharge: true };
+  }
+
+  let taxLines: TaxLine[];
+  if (rule.regime === "GST") {
+    const isIntraState =
+      country === SELLER_DETAILS.country.toUpperCase() &&
+      billingAddress!.state.trim().toLowerCase() ===
+        SELLER_DETAILS.state.trim().toLowerCase();
+
+    if (isIntraState) {
+      const halfRate = rule.rate / 2;
+      const halfAmount = roundAmount((taxableAmount * halfRate) / 100);
+      taxLines = [
+        { type: "CGST", rate: halfRate, amount: halfAmount },
+        { type: "SGST", rate: halfRate, amount: halfAmount },
+      ];
+    } else {
+      taxLines = [
+        {
+          type: "IGST",
+          rate: rule.rate,
+          amount: roundAmount((taxableAmount * rule.rate) / 100),
+        },
+      ];
+    }
+  } else {
+    taxLines = [
+      {
+        type: "VAT",
+        rate: rule.rate,
+        amount: roundAmount((taxableAmount * rule.rate) / 100),
+      },
+    ];
+  }
+
+  return {
+    taxRegime: rule.regime,
+    taxLines,
+    taxAmount: roundAmount(
+      taxLines.reduce((sum, line) => sum + line.amount, 0)
+    ),
+    reverseCharge: false,
+  };
+};
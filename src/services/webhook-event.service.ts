@@ -0,0 +1,124 @@
+import WebhookEvent from "../models/webhook-event.model";
+import { WebhookEventTypes } from "../types/webhook-event.types";
+import {
+  PaymentProviderName,
+  PaymentWebhookEvent,
+} from "../types/payment.types";
+
+export type WebhookEventHandler = (
+  provider: PaymentProviderName,
+  event: PaymentWebhookEvent
+) => Promise<void>;
+
+// Failed events are retried until they reach this many attempts
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+
+// A "Processing" claim older than this is treated as abandoned (e.g. a crash)
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Persist an incoming event, returning the existing record on redelivery
+export const recordWebhookEvent = async (
+  provider: PaymentProviderName,
+  event: PaymentWebhookEvent
+): Promise<WebhookEventTypes> => {
+  const record = await WebhookEvent.findOneAndUpdate(
+    { provider, eventId: event.id },
+    {
+      $setOnInsert: {
+        provider,
+        eventId: event.id,
+        type: event.type,
+        action: event.action,
+        paymentId: event.paymentId,
+        transactionId: event.transactionId ?? null,
+        subscriptionId: event.subscriptionId ?? null,
+        metadata: event.metadata,
+        payload: event.payload,
+        status: "Pending",
+      },
+    },
+    { upsert: true, new: true }
+  );
+
+  return record!;
+};
+
+// Run the handler for a stored event, at most once at a time and only
+// until it has succeeded. Returns false if the event was skipped.
+export const runWebhookEvent = async (
+  record: WebhookEventTypes,
+  handler: WebhookEventHandler,
+  { force = false }: { force?: boolean } = {}
+): Promise<boolean> => {
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+  const claimableStatuses = force
+    ? ["Pending", "Failed", "Processed"]
+    : ["Pending", "Failed"];
+
+  const claimed = await WebhookEvent.findOneAndUpdate(
+    {
+      _id: record._id,
+      $or: [
+        { status: { $in: claimableStatuses } },
+        { status: "Processing", lastAttemptAt: { $lt: staleBefore } },
+      ],
+    },
+    {
+      status: "Processing",
+      lastAttemptAt: new Date(),
+      $inc: { attempts: 1 },
+    },
+    { new: true }
+  );
+
+  if (!claimed) return false;
+
+  try {
+    await handler(claimed.provider, {
+      id: claimed.eventId,
+      type: claimed.type,
+      action: claimed.action,
+      paymentId: claimed.paymentId,
+      transactionId: claimed.transactionId,
+      subscriptionId: claimed.subscriptionId,
+      metadata: claimed.metadata ?? {},
+      payload: claimed.payload,
+    });
+
+    await WebhookEvent.findByIdAndUpdate(claimed._id, {
+      status: "Processed",
+      processedAt: new Date(),
+      lastError: null,
+    });
+    return true;
+  } catch (error) {
+    await WebhookEvent.findByIdAndUpdate(claimed._id, {
+      status: "Failed",
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};
+
+// Retry failed events that still have attempts left
+export const retryFailedWebhookEvents = async (
+  handler: WebhookEventHandler
+): Promise<{ retried: number; failed: number }> => {
+  const failedEvents = await WebhookEvent.find({
+    status: "Failed",
+    attempts: { $lt: MAX_WEBHOOK_ATTEMPTS },
+  }).sort({ createdAt: 1 });
+
+  let retried = 0;
+  let failed = 0;
+  for (const record of failedEvents) {
+    try {
+      if (await runWebhookEvent(record, handler)) retried++;
+    } catch (error) {
+      failed++;
+      console.error(`Retry failed for webhook event ${record.eventId}:`, error);
+    }
+  }
+
+  return { retried, failed };
+};
@@ -0,0 +1,48 @@
+import { Types } from "mongoose";
+import User from "../models/user.model";
+import { sendWishlistAlertEmail } from "../utils/mailer";
+import { ProductTypes } from "../types/productTypes";
+
+// Statuses a product comes back into stock from
+const UNAVAILABLE_STATUSES = ["out of stock", "inactive"];
+
+type ProductAlertState = Pick<ProductTypes, "status" | "pricePerUnit">;
+
+// Email customers who opted into alerts for a wishlisted product when it
+// becomes active again or its price per unit goes down. A customer who
+// opted into both gets one email.
+export const sendWishlistAlerts = async (
+  productId: Types.ObjectId,
+  before: ProductAlertState,
+  after: ProductAlertState
+): Promise<number> => {
+  const backInStock =
+    UNAVAILABLE_STATUSES.includes(before.status) && after.status === "active";
+  const priceDrop =
+    after.status === "active" && after.pricePerUnit < before.pricePerUnit;
+  if (!backInStock && !priceDrop) return 0;
+
+  const optIns = [
+    ...(backInStock ? [{ notifyBackInStock: true }] : []),
+    ...(priceDrop ? [{ notifyPriceDrop: true }] : []),
+  ];
+  const users = await User.find({
+    wishlist: { $elemMatch: { productId, $or: optIns } },
+  })
+    .select("wishlist")
+    .lean();
+
+  for (const user of users) {
+    const item = user.wishlist?.find((entry) => entry.productId.equals(productId));
+    if (!item) continue;
+
+    await sendWishlistAlertEmail(
+      user._id.toString(),
+      productId.toString(),
+      backInStock && item.notifyBackInStock ? "backInStock" : "priceDrop",
+      priceDrop ? before.pricePerUnit : undefined
+    );
+  }
+
+  return users.length;
+};
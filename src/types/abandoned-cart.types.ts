@@ -0,0 +1,42 @@
+import { Document, Types } from "mongoose";
+
+export type AbandonedCartStatus =
+  | "Active" // Reminders are being sent
+  | "Recovered" // The cart became an order
+  | "Returned" // The customer came back and changed the cart
+  | "Expired"; // The campaign ended without an order; the cart was cleared
+
+// Reminder sent `hoursAfter` hours after the cart was abandoned
+export interface AbandonedCartReminder {
+  hoursAfter: number;
+  sentAt: Date;
+  couponCode?: string | null;
+}
+
+export interface AbandonedCartLine {
+  product: Types.ObjectId;
+  wordCount?: number;
+  quantity: number;
+  totalPrice: number;
+}
+
+export interface AbandonedCartTypes extends Document {
+  cartId: Types.ObjectId;
+  userId: Types.ObjectId | null;
+  guestToken: string | null;
+  email: string;
+  name: string | null;
+  products: AbandonedCartLine[]; // Cart contents when it was abandoned
+  cartValue: number; // USD
+  abandonedAt: Date; // Last cart activity before the campaign started
+  reminders: AbandonedCartReminder[];
+  couponId: Types.ObjectId | null;
+  couponCode: string | null;
+  status: AbandonedCartStatus;
+  orderId: Types.ObjectId | null;
+  recoveredAt: Date | null;
+  recoveredValue: number; // USD cart total of the recovering order
+  endedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -1,5 +1,5 @@
 import { Types } from "mongoose";
-import { ProductTypes } from "./productTypes";
+import { FormResponseValue, ProductTypes } from "./productTypes";
 
 export interface CartProduct {
   _id?: Types.ObjectId;
@@ -7,16 +7,72 @@ export interface CartProduct {
   wordCount?: number;
   quantity: number;
   additionalInfo?: string;
+  formResponses?: Record<string, FormResponseValue>; // Keyed by field name
+  addOns?: Types.ObjectId[]; // Chosen ProductAddOn IDs
+  unitPrice?: number;
   totalPrice: number;
+  quotedPrice?: number | null; // Line total when the customer last changed it
+  priceChanged?: boolean;
+  unavailable?: boolean; // Product or add-on can no longer be bought
   addedAt?: Date;
   [key: string]: any;
 }
 
+export interface GuestContact {
+  name?: string | null;
+  email: string;
+  contact?: string | null;
+}
+
 export interface CartTypes {
-  userId: Types.ObjectId | string;
+  userId?: Types.ObjectId | string | null;
+  guestToken?: string | null; // Anonymous cart token for guest carts
+  guestContact?: GuestContact | null;
   products: CartProduct[];
   totalQuantity: number;
   totalPrice: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+// Contact details left by a guest shopper, followed up by sales
+export interface CartLeadTypes {
+  guestToken: string;
+  name?: string | null;
+  email: string;
+  contact?: string | null;
+  products: Types.ObjectId[];
+  cartTotal: number;
+  status: "Open" | "Converted";
+  userId?: Types.ObjectId | null;
+  convertedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CartMergeResult {
+  merged: number;
+  skipped: { product: Types.ObjectId; reason: string }[];
+}
+
+export interface CartRestoreResult {
+  added: number;
+  skipped: { product: Types.ObjectId; reason: string }[];
+}
+
+// A line kept in a saved cart; it is priced when loaded into the cart
+export type SavedCartLine = Pick<
+  CartProduct,
+  "product" | "wordCount" | "quantity" | "additionalInfo" | "formResponses" | "addOns"
+>;
+
+// A named set of cart lines a customer can load and check out again
+export interface SavedCartTypes {
+  userId: Types.ObjectId;
+  name: string;
+  products: SavedCartLine[];
+  totalPrice: number; // USD total when the cart was saved
+  lastUsedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
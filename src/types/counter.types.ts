@@ -0,0 +1,10 @@
+import { Document } from "mongoose";
+
+export interface CounterTypes extends Document {
+  key: string;
+  seq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SequenceName = "order" | "invoice" | "ticket";
@@ -1,12 +1,38 @@
 import { Types } from "mongoose";
 
+export type CouponDiscountType =
+  | "percentage"
+  | "flat"
+  | "buyXGetY" // Buy `buyQuantity` eligible units, get `getQuantity` discounted
+  | "tieredSpend"; // Discount grows with the eligible spend, see `spendTiers`
+
+// New customers have no paid order yet; returning customers have at least one
+export type CouponCustomerType = "all" | "new" | "returning";
+
+// Exclusive promotions are never combined with another promotion
+export type CouponStacking = "exclusive" | "stackable";
+
+export interface SpendTier {
+  minSpend: number; // USD spent on eligible products
+  discountType: "percentage" | "flat";
+  discountValue: number;
+}
+
 export interface CouponTypes {
   _id?: Types.ObjectId;
   code: string;
   couponApplicableOn: "allProducts" | "specificProducts" | "productCategories";
-  couponType: "all" | "quantityBased";
-  discountType: "percentage" | "flat";
+  couponType: "amountBased" | "quantityBased";
+  discountType: CouponDiscountType;
   discountValue: number; // Percentage (0-100) for percentage; flat amount for flat
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  getDiscountPercent?: number; // Off each "get" unit; 100 makes them free
+  spendTiers?: SpendTier[];
+  firstOrderOnly?: boolean;
+  isAutomatic?: boolean; // Applied without the customer entering the code
+  stacking?: CouponStacking;
+  priority?: number; // Higher priority promotions are applied first
   minOrderAmount?: number;
   maxDiscountAmount?: number;
   specificProducts?: Types.ObjectId[];
@@ -20,11 +46,105 @@ export interface CouponTypes {
   userUsage?: {
     userId: Types.ObjectId;
     usageCount: number;
+    lastUsedAt?: Date | null;
   }[];
+  // Held by unpaid orders so limited coupons can't be oversold
+  reservations?: {
+    orderId: Types.ObjectId;
+    userId: Types.ObjectId;
+    reservedAt: Date;
+  }[];
+  // Set to "Expired" by a job after endsAt, for listings; the coupon is kept.
+  // Redemption checks startsAt/endsAt itself.
   status?: string;
-  expiresAt?: Date;
-  createdBy: Types.ObjectId;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  // Targeting; empty lists mean anyone
+  targetUsers?: Types.ObjectId[];
+  targetRoles?: Types.ObjectId[];
+  customerType?: CouponCustomerType;
+  emailDomains?: string[]; // e.g. "example.com", matched with subdomains
+  targetEmails?: string[]; // Exact addresses, e.g. a guest sent a coupon
+  source?: "manual" | "abandonedCart" | "campaign";
+  campaignId?: Types.ObjectId | null; // Set on codes generated for a campaign
+  createdBy?: Types.ObjectId | null;
   updatedBy?: Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
-}
\ No newline at end of file
+}
+
+// The rules every code of a campaign shares
+export type CouponRules = Pick<
+  CouponTypes,
+  | "couponApplicableOn"
+  | "couponType"
+  | "discountType"
+  | "discountValue"
+  | "buyQuantity"
+  | "getQuantity"
+  | "getDiscountPercent"
+  | "spendTiers"
+  | "firstOrderOnly"
+  | "stacking"
+  | "priority"
+  | "minOrderAmount"
+  | "maxDiscountAmount"
+  | "specificProducts"
+  | "productCategories"
+  | "minQuantity"
+  | "maxQuantity"
+  | "maxWordCount"
+  | "startsAt"
+  | "endsAt"
+  | "targetUsers"
+  | "targetRoles"
+  | "customerType"
+  | "emailDomains"
+>;
+
+// A batch of single-use codes sharing one set of rules
+export interface CouponCampaignTypes {
+  _id?: Types.ObjectId;
+  name: string;
+  description?: string;
+  prefix: string;
+  rules: CouponRules;
+  status: "Active" | "Inactive";
+  codeCount: number;
+  createdBy: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// A promotion's share of one cart line's discount
+export interface LinePromotionDiscount {
+  coupon: Types.ObjectId;
+  code: string;
+  amount: number;
+}
+
+export interface LineDiscount {
+  lineId: string | null;
+  product: Types.ObjectId;
+  totalPrice: number;
+  discount: number;
+  finalPrice: number;
+  promotions: LinePromotionDiscount[];
+}
+
+export interface AppliedPromotion {
+  coupon: Types.ObjectId;
+  code: string;
+  discountType: CouponDiscountType;
+  automatic: boolean;
+  discount: number;
+}
+
+export interface PromotionResult {
+  subtotal: number;
+  discount: number;
+  total: number;
+  promotions: AppliedPromotion[];
+  lines: LineDiscount[];
+}
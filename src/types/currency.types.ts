@@ -0,0 +1,18 @@
+import { Document } from "mongoose";
+
+export type CurrencyCode = "usd" | "inr" | "eur" | "gbp" | "aud" | "cad";
+
+// Units of the currency per 1 USD
+export interface ExchangeRateTypes extends Document {
+  currency: CurrencyCode;
+  rate: number;
+  source: string;
+  fetchedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CurrencyPrice {
+  currency: CurrencyCode;
+  pricePerUnit: number;
+}
@@ -1,4 +1,19 @@
 import { Document, Types } from "mongoose";
+import { CurrencyCode } from "./currency.types";
+import { BillingAddress, TaxLine, TaxRegime } from "./tax.types";
+
+export interface InvoiceCredit {
+  refundId: string;
+  amount: number;
+  reason?: string;
+  issuedDate: Date;
+}
+
+// Reminder sent `daysFromDue` days from the due date (negative = before)
+export interface InvoiceReminder {
+  daysFromDue: number;
+  sentAt: Date;
+}
 
 export interface InvoiceTypes extends Document {
   invoiceNumber: string;
@@ -6,13 +21,32 @@ export interface InvoiceTypes extends Document {
   userId: Types.ObjectId;
   totalAmount: number;
   discountAmount: number;
-  finalAmount: number;
-  status: "Unpaid" | "Paid" | "Overdue" | "Cancelled";
+  taxRegime: TaxRegime;
+  taxLines: TaxLine[];
+  taxAmount: number;
+  reverseCharge: boolean;
+  billingAddress?: BillingAddress | null;
+  customerTaxId?: string | null;
+  finalAmount: number; // Includes tax
+  storeCreditAmount: number; // Part of finalAmount paid with store credit
+  status:
+    | "Unpaid"
+    | "Paid"
+    | "Overdue"
+    | "Cancelled"
+    | "Partially Credited"
+    | "Credited";
   dueDate: Date;
   issuedDate: Date;
   paymentMethod: "Razorpay" | "Stripe" | "Manual";
   paymentId: string | null;
+  currency: CurrencyCode;
+  exchangeRate: number;
   zohoInvoiceId: string | null;
+  credits: InvoiceCredit[];
+  creditedAmount: number;
+  overdueAt: Date | null;
+  reminders: InvoiceReminder[];
   createdAt: Date;
   updatedAt: Date;
 }
\ No newline at end of file
@@ -1,29 +1,126 @@
 import { Types } from "mongoose";
 import { CartProduct } from "./cartTypes";
+import { FormResponse, LineAddOn } from "./productTypes";
+import { CurrencyCode } from "./currency.types";
+import { AppliedPromotion } from "./coupon.types";
+import { BillingAddress, TaxLine, TaxRegime } from "./tax.types";
+
+export type OrderStatus =
+  | "Pending"
+  | "Processing"
+  | "Confirmed"
+  | "Cancelled"
+  | "Completed";
+
+export interface OrderStatusHistory {
+  _id?: Types.ObjectId;
+  from: OrderStatus | null;
+  to: OrderStatus;
+  changedBy?: Types.ObjectId | null;
+  note?: string;
+  changedAt: Date;
+}
+
+export type FulfilmentStatus =
+  | "Unassigned"
+  | "Assigned"
+  | "Delivered"
+  | "Revision Requested"
+  | "Approved";
+
+export interface DeliverableFile {
+  url: string;
+  publicId: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  uploadedAt: Date;
+}
+
+export interface OrderItemDelivery {
+  _id?: Types.ObjectId;
+  files: DeliverableFile[];
+  note?: string;
+  deliveredBy: Types.ObjectId;
+  deliveredAt: Date;
+}
+
+export interface OrderItemRevision {
+  _id?: Types.ObjectId;
+  note: string;
+  requestedBy: Types.ObjectId;
+  requestedAt: Date;
+}
+
+export interface OrderItemFulfilment {
+  status: FulfilmentStatus;
+  assignee?: Types.ObjectId | null;
+  dueDate?: Date | null;
+  revisionCount: number;
+  deliveries: OrderItemDelivery[];
+  revisions: OrderItemRevision[];
+  approvedAt?: Date | null;
+}
+
+export interface OrderProduct
+  extends Omit<CartProduct, "formResponses" | "addOns"> {
+  addOns?: LineAddOn[];
+  formId?: Types.ObjectId | null;
+  formVersion?: number | null;
+  formResponses?: FormResponse[];
+  discount?: number; // USD promotion discount on this line
+  fulfilment?: OrderItemFulfilment;
+}
+
+export interface OrderRefund {
+  _id?: Types.ObjectId;
+  refundId: string;
+  amount: number;
+  providerAmount: number;
+  reason?: string;
+  source: "admin" | "provider";
+  createdBy?: Types.ObjectId | null;
+  refundedAt: Date;
+}
 
 // Define the main Order type
 export interface OrderTypes extends Document {
   userId: Types.ObjectId;
   orderNumber?: string;
-  products: CartProduct[];
+  products: OrderProduct[];
   totalQuantity: number;
   totalPrice: number;
-  couponDiscount: number;
-  finalPrice: number;
-  couponId?: Types.ObjectId | null;
+  couponDiscount: number; // Total of all applied promotions
+  promotions: AppliedPromotion[];
+  taxRegime: TaxRegime;
+  taxLines: TaxLine[];
+  taxAmount: number;
+  reverseCharge: boolean;
+  billingAddress?: BillingAddress | null;
+  customerTaxId?: string | null;
+  finalPrice: number; // Includes tax
+  storeCreditApplied: number; // Part of finalPrice paid with store credit
+  couponId?: Types.ObjectId | null; // First promotion entered by code
   paymentId: string;
+  transactionId?: string | null;
   invoiceId: string;
   zohoInvoiceId: string;
   paymentUrl: string;
-  status:
-    | "Pending"
-    | "Processing"
-    | "Confirmed"
-    | "Cancelled"
-    | "Completed"
-  paymentStatus: "Unpaid" | "Paid" | "Refunded" | "Failed";
+  status: OrderStatus;
+  statusHistory: OrderStatusHistory[];
+  paymentStatus:
+    | "Unpaid"
+    | "Paid"
+    | "Partially Refunded"
+    | "Refunded"
+    | "Failed";
   paymentMethod: "Razorpay" | "Stripe";
   paymentDate: Date;
+  currency: CurrencyCode;
+  exchangeRate: number;
+  refunds: OrderRefund[];
+  refundedAmount: number;
+  subscriptionId?: Types.ObjectId | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -0,0 +1,102 @@
+import { IncomingHttpHeaders } from "http";
+
+export type PaymentProviderName = "Stripe" | "Razorpay";
+
+// A single priced line on a hosted checkout, amounts in major currency units
+export interface CheckoutLineItem {
+  name: string;
+  unitAmount: number;
+  quantity: number;
+  // Set for lines billed on a schedule instead of once
+  recurringInterval?: "month";
+}
+
+export interface CreateCheckoutParams {
+  orderNumber: string;
+  currency: string;
+  lineItems: CheckoutLineItem[];
+  discountAmount: number;
+  // Percent rates charged on top of the discounted line amounts
+  taxRates?: { name: string; rate: number }[];
+  // Store credit paid towards the order, taken off after tax
+  creditAmount?: number;
+  customer?: { name?: string; email?: string; contact?: string };
+  metadata: Record<string, string>;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  paymentId: string;
+  paymentUrl: string | null;
+}
+
+// Provider-agnostic outcome of a webhook event
+export type PaymentEventAction =
+  | "paid"
+  | "failed"
+  | "expired"
+  | "refunded"
+  | "renewed"
+  | "cancelled"
+  | "ignored";
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: string;
+  action: PaymentEventAction;
+  paymentId: string | null;
+  // Provider id of the captured payment (Stripe PaymentIntent, Razorpay payment)
+  transactionId?: string | null;
+  // Provider id of the recurring subscription, for subscription events
+  subscriptionId?: string | null;
+  metadata: Record<string, string>;
+  payload: unknown;
+}
+
+// Refund amounts are in the smallest unit of the charged currency
+export interface ProviderRefund {
+  refundId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface ProviderRefundSummary {
+  capturedAmount: number;
+  refunds: ProviderRefund[];
+}
+
+export interface CreateRefundParams {
+  transactionId: string;
+  amount?: number; // Omit for a full refund
+  reason?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ProviderSubscription {
+  status: string;
+  currentPeriodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+export interface PaymentProvider {
+  name: PaymentProviderName;
+  supportsSubscriptions: boolean;
+  createCheckout(params: CreateCheckoutParams): Promise<CheckoutSession>;
+  // Close a checkout that is still open so it can no longer be paid
+  expireCheckout(paymentId: string): Promise<void>;
+  // Verifies the signature and throws if the request did not come from the provider
+  constructWebhookEvent(
+    rawBody: Buffer | string,
+    headers: IncomingHttpHeaders
+  ): PaymentWebhookEvent;
+  // Look up the captured payment for a checkout created by createCheckout
+  resolveTransactionId(paymentId: string): Promise<string | null>;
+  getRefunds(transactionId: string): Promise<ProviderRefundSummary>;
+  refund(params: CreateRefundParams): Promise<ProviderRefund>;
+  // Recurring billing; providers without subscription support throw
+  getSubscription(subscriptionId: string): Promise<ProviderSubscription>;
+  pauseSubscription(subscriptionId: string): Promise<void>;
+  resumeSubscription(subscriptionId: string): Promise<void>;
+  cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<void>;
+}
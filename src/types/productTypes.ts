@@ -1,4 +1,5 @@
 import mongoose, { Types } from "mongoose";
+import { CurrencyPrice } from "./currency.types";
 
 export type ProductTypes = {
   _id: Types.ObjectId;
@@ -11,6 +12,9 @@ export type ProductTypes = {
   minimumQuantity?: number;
   slug: string;
   pricePerUnit: number;
+  currencyPrices?: CurrencyPrice[];
+  priceTiers?: PriceTier[];
+  addOns?: ProductAddOn[];
   pricingType: "perWord" | "perPost" | "perReview" | "perMonth" | "perQuantity";
   stock: number;
   images: string[];
@@ -18,6 +22,7 @@ export type ProductTypes = {
   priority?: number;
   keywords?: string[];
   formId?: Types.ObjectId;
+  formVersion?: number | null; // Pinned form version
   metaTitle?: string;
   metaDescription?: string;
   canonicalLink?: string;
@@ -29,6 +34,45 @@ export type ProductTypes = {
   updatedAt?: Date;
 };
 
+// A lower (or higher) USD unit price for lines that reach both minimums,
+// e.g. 10+ posts or 2000+ words
+export interface PriceTier {
+  minWordCount: number;
+  minQuantity: number;
+  pricePerUnit: number;
+}
+
+// An option sold with a product, e.g. express delivery. Options sharing a
+// group are variants, and only one of them can be chosen.
+export interface ProductAddOn {
+  _id?: Types.ObjectId;
+  name: string;
+  group?: string | null;
+  modifierType: "flat" | "percentage";
+  modifierValue: number; // USD per item, or percent of the item price
+  status: "active" | "inactive";
+}
+
+// A chosen add-on with its price per item, as itemised on orders
+export interface LineAddOn {
+  addOn: Types.ObjectId;
+  name: string;
+  group?: string | null;
+  modifierType: "flat" | "percentage";
+  modifierValue: number;
+  amount: number;
+}
+
+// The price of one cart or order line
+export interface LinePrice {
+  unitPrice: number; // Per 100 words for word-based lines, otherwise per item
+  baseAmount: number; // One item at its word count, before add-ons
+  addOns: LineAddOn[];
+  unitAmount: number; // One item including add-ons
+  totalPrice: number;
+  tier: PriceTier | null;
+}
+
 export interface CategoryTypes {
   parentCategory: mongoose.Types.ObjectId | null;
   subCategories: mongoose.Types.ObjectId[];
@@ -46,33 +90,155 @@ export interface Option {
   name: string;
 }
 
+export const FIELD_INPUT_TYPES = [
+  "text",
+  "textarea",
+  "number",
+  "select",
+  "multi-select",
+  "checkbox",
+  "url",
+  "file",
+  "date",
+] as const;
+
+export type FieldInputType = (typeof FIELD_INPUT_TYPES)[number];
+
 export interface Field {
   name: string;
   label: string;
-  inputType: string;
+  inputType: FieldInputType;
   inputMinLength?: number | null;
   inputMaxLength?: number | null;
+  inputMin?: number | null; // Bounds for number fields
+  inputMax?: number | null;
   inputPlaceholder?: string | null;
   inputValidationPattern?: string | null;
   inputRequired: boolean;
   customClassName?: string | null;
   multipleOptions?: Option[];
+  deletedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// A form field as served to the storefront, with its visibility rules
+// expressed in terms of other fields' names
+export interface ResolvedFormField {
+  id: Types.ObjectId;
+  name: string;
+  label: string;
+  type: FieldInputType;
+  required: boolean;
+  placeholder: string | null;
+  className: string | null;
+  minLength: number | null;
+  maxLength: number | null;
+  min: number | null;
+  max: number | null;
+  pattern: string | null;
+  options: Option[];
+  multiple: boolean;
+  visibleWhen: {
+    logic: "all" | "any";
+    conditions: {
+      field: string;
+      operator: FieldConditionOperator;
+      value: string | string[] | null;
+    }[];
+  } | null;
+}
+
+export interface ResolvedFormSection {
+  key: string | null; // null for fields outside any section
+  title: string | null;
+  description: string | null;
+  fields: ResolvedFormField[];
+}
+
+export interface ResolvedForm {
+  formId: Types.ObjectId;
+  version: number;
+  title: string;
+  sections: ResolvedFormSection[];
+}
+
+export type FormResponseValue = string | string[];
+
+// A validated answer, with the label copied so it reads the same after the
+// form changes
+export interface FormResponse {
+  field: Types.ObjectId;
+  name: string;
+  label: string;
+  value: FormResponseValue;
+}
+
+export type FieldConditionOperator =
+  | "equals"
+  | "notEquals"
+  | "in"
+  | "notIn"
+  | "isEmpty"
+  | "isNotEmpty";
+
+// Shows a field only when another field's answer matches
+export interface FieldCondition {
+  field: Types.ObjectId;
+  operator: FieldConditionOperator;
+  value?: string | string[] | null;
+}
+
+export interface FormSection {
+  key: string;
+  title: string;
+  description?: string | null;
+  sectionOrder: number;
+}
+
+// Validated answers with the form version they were checked against
+export interface ValidatedFormResponses {
+  formId: Types.ObjectId | null;
+  formVersion: number | null;
+  responses: FormResponse[];
+}
+
 export interface FormField {
   field: Types.ObjectId;
   fieldOrder: number;
+  section?: string | null; // FormSection key
+  conditions?: FieldCondition[];
+  conditionLogic?: "all" | "any";
 }
 
 export interface Form {
   productType: string;
   title: string;
+  sections?: FormSection[];
   fields: FormField[];
   status: "active" | "inactive";
+  currentVersion: number;
   createdBy: Types.ObjectId;
   updatedBy?: Types.ObjectId | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+// A field as it was when a form version was published
+export interface FormVersionField
+  extends Omit<Field, "createdAt" | "updatedAt" | "deletedAt">,
+    Omit<FormField, "field"> {
+  field: Types.ObjectId;
+}
+
+// Immutable snapshot of a form. Products pin a version and orders record
+// the version their answers were collected against.
+export interface FormVersionTypes {
+  formId: Types.ObjectId;
+  version: number;
+  title: string;
+  sections: FormSection[];
+  fields: FormVersionField[];
+  createdBy?: Types.ObjectId | null;
+  createdAt?: Date;
+}
@@ -0,0 +1,52 @@
+import { Document, Types } from "mongoose";
+
+export type CreditEntryType =
+  | "credit" // Adds to the balance
+  | "debit"; // Spends from the balance
+
+export type CreditSource =
+  | "support" // Added or removed by staff, e.g. compensation
+  | "giftCard" // Loaded by redeeming a gift card
+  | "order"; // Spent on an order
+
+// The part of a credit a debit spent, so it can be given back
+export interface CreditAllocation {
+  creditId: Types.ObjectId;
+  amount: number;
+}
+
+// One line of a customer's store credit ledger. Amounts are in USD.
+export interface CreditEntryTypes extends Document {
+  userId: Types.ObjectId;
+  type: CreditEntryType;
+  source: CreditSource;
+  amount: number;
+  remaining: number; // Credits only: what is left to spend
+  expiresAt: Date | null; // Credits only
+  reason: string;
+  orderId: Types.ObjectId | null;
+  ticketId: Types.ObjectId | null;
+  giftCardId: Types.ObjectId | null;
+  allocations: CreditAllocation[]; // Debits only
+  reversedAt: Date | null; // Debits given back, e.g. when a checkout expires
+  createdBy: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type GiftCardStatus = "Active" | "Redeemed" | "Disabled";
+
+// A code that loads its amount onto the ledger of whoever redeems it
+export interface GiftCardTypes extends Document {
+  code: string;
+  amount: number; // USD
+  status: GiftCardStatus;
+  expiresAt: Date | null; // Last day the code can be redeemed
+  creditValidDays: number | null; // How long the loaded credit lasts
+  note: string;
+  redeemedBy: Types.ObjectId | null;
+  redeemedAt: Date | null;
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
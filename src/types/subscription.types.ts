@@ -0,0 +1,37 @@
+import { Document, Types } from "mongoose";
+import { PaymentProviderName } from "./payment.types";
+import { ProductTypes } from "./productTypes";
+import { CurrencyCode } from "./currency.types";
+import { TaxLine } from "./tax.types";
+
+export type SubscriptionStatus =
+  | "Incomplete"
+  | "Active"
+  | "Paused"
+  | "Cancelled";
+
+export interface SubscriptionTypes extends Document {
+  userId: Types.ObjectId;
+  product: Types.ObjectId | ProductTypes;
+  orderId: Types.ObjectId; // Order that started the subscription
+  wordCount?: number;
+  quantity: number;
+  additionalInfo?: string;
+  amount: number; // USD billed every interval, before tax
+  taxLines: TaxLine[];
+  taxAmount: number;
+  currency: CurrencyCode; // Currency the provider charges in
+  exchangeRate: number;
+  interval: "month";
+  paymentMethod: PaymentProviderName;
+  providerSubscriptionId: string | null;
+  status: SubscriptionStatus;
+  currentPeriodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+  renewalCount: number;
+  lastRenewedAt: Date | null;
+  pausedAt: Date | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
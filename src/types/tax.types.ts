@@ -0,0 +1,40 @@
+import { Document, Types } from "mongoose";
+
+export type TaxRegime = "GST" | "VAT" | "None";
+
+export type TaxLineType = "CGST" | "SGST" | "IGST" | "VAT";
+
+export interface TaxRuleTypes extends Document {
+  country: string; // ISO 3166-1 alpha-2
+  regime: Exclude<TaxRegime, "None">;
+  rate: number; // Percent
+  // B2B customers with a valid tax ID account for the tax themselves
+  reverseChargeWithTaxId: boolean;
+  status: "active" | "inactive";
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BillingAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+export interface TaxLine {
+  type: TaxLineType;
+  rate: number; // Percent
+  amount: number; // USD
+}
+
+export interface TaxBreakdown {
+  taxRegime: TaxRegime;
+  taxLines: TaxLine[];
+  taxAmount: number;
+  reverseCharge: boolean;
+}
@@ -1,5 +1,14 @@
 import { Types } from "mongoose";
 import { RoleTypes } from "./roleTypes";
+import { BillingAddress } from "./tax.types";
+
+// A saved product, with the alerts the customer opted into for it
+export type WishlistItem = {
+  productId: Types.ObjectId;
+  dateAdded: Date;
+  notifyBackInStock?: boolean; // Product becomes active again
+  notifyPriceDrop?: boolean; // Product's pricePerUnit goes down
+};
 
 export type UserTypes = {
   image?: string;
@@ -8,10 +17,12 @@ export type UserTypes = {
   email: string;
   password?: string;
   contact?: string;
+  billingAddress?: BillingAddress | null;
+  taxId?: string | null;
   isAdmin?: boolean;
   role?: Types.ObjectId | RoleTypes;
   cart?: Types.ObjectId;
-  wishlist?: { productId: Types.ObjectId; dateAdded: Date }[];
+  wishlist?: WishlistItem[];
   status?: string;
   isVerifiedUser?: boolean;
   refreshToken?: string | null;
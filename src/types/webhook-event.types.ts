@@ -0,0 +1,27 @@
+import { Document } from "mongoose";
+import { PaymentEventAction, PaymentProviderName } from "./payment.types";
+
+export type WebhookEventStatus =
+  | "Pending"
+  | "Processing"
+  | "Processed"
+  | "Failed";
+
+export interface WebhookEventTypes extends Document {
+  provider: PaymentProviderName;
+  eventId: string;
+  type: string;
+  action: PaymentEventAction;
+  paymentId: string | null;
+  transactionId: string | null;
+  subscriptionId: string | null;
+  metadata: Record<string, string>;
+  payload: unknown;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  lastAttemptAt: Date | null;
+  processedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -39,12 +39,16 @@ try {
 }
 
 const TICKET_ATTACHMENTS_FOLDER = "ticket_attachments";
+const ORDER_DELIVERABLES_FOLDER = "order_deliverables";
 
 /* --------------------------------------------------
-   Ticket Attachments Upload
+   Attachments Upload (shared)
 -------------------------------------------------- */
 
-export const uploadTicketAttachments = async (files: Express.Multer.File[]) => {
+const uploadAttachmentsToFolder = async (
+  files: Express.Multer.File[],
+  folder: string
+) => {
   try {
     const uploadPromises = files.map(
       (file) =>
@@ -53,7 +57,7 @@ export const uploadTicketAttachments = async (files: Express.Multer.File[]) => {
 
           const uploadStream = cloudinary.uploader.upload_stream(
             {
-              folder: TICKET_ATTACHMENTS_FOLDER,
+              folder,
               resource_type: isSvg ? "image" : "auto",
             },
             (error, result) => {
@@ -109,11 +113,25 @@ export const uploadTicketAttachments = async (files: Express.Multer.File[]) => {
   } catch (error: any) {
     throw new CustomError(
       error.statusCode || 500,
-      error.message || "Failed to upload ticket attachments"
+      error.message || `Failed to upload files to ${folder}`
     );
   }
 };
 
+/* --------------------------------------------------
+   Ticket Attachments Upload
+-------------------------------------------------- */
+
+export const uploadTicketAttachments = async (files: Express.Multer.File[]) =>
+  uploadAttachmentsToFolder(files, TICKET_ATTACHMENTS_FOLDER);
+
+/* --------------------------------------------------
+   Order Deliverables Upload
+-------------------------------------------------- */
+
+export const uploadOrderDeliverables = async (files: Express.Multer.File[]) =>
+  uploadAttachmentsToFolder(files, ORDER_DELIVERABLES_FOLDER);
+
 /* --------------------------------------------------
    Delete Ticket Attachments
 -------------------------------------------------- */
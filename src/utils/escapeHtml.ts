@@ -0,0 +1,7 @@
+// Escape entered text before it is placed in email or PDF HTML
+export const escapeHtml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
@@ -9,3 +9,12 @@ export const BASE_DOMAIN =
   process.env.NODE_ENV === "production"
     ? process.env.LIVE_DOMAIN || "https://www.adaired.com"
     : process.env.LOCAL_DOMAIN || "http://localhost:3001";
+
+// Seller details printed on invoices and used for GST place-of-supply rules
+export const SELLER_DETAILS = {
+  name: "Adaired Digital Media",
+  address: process.env.SELLER_ADDRESS || "",
+  state: process.env.SELLER_STATE || "Punjab",
+  country: process.env.SELLER_COUNTRY || "IN",
+  taxId: process.env.SELLER_TAX_ID || "",
+};
@@ -1,6 +1,11 @@
 import * as nodemailer from "nodemailer";
 import Order from "../models/orderModel";
 import Invoice from "../models/invoice.model";
+import AbandonedCart from "../models/abandoned-cart.model";
+import User from "../models/user.model";
+import Product from "../models/product.model";
+import { BASE_DOMAIN } from "./globals";
+import { escapeHtml } from "./escapeHtml";
 
 export const sendEmail = async (
   to: string,
@@ -53,7 +58,8 @@ const emailTemplate = (
   paymentStatus: string,
   linkUrl: string,
   linkText: string,
-  closing: string
+  closing: string,
+  heading: string = "Congratulations!"
 ) => `
 <!DOCTYPE html>
 <html lang="en">
@@ -83,7 +89,7 @@ const emailTemplate = (
                           <img src="https://res.cloudinary.com/adaired/image/upload/v1742983630/skgzh4ldyitthuntbrfg.gif" alt="icon" width="40" height="40" style="display: block;">
                         </td>
                         <td>
-                          <h2 style="margin: 0; line-height: 36px; font-family: 'Open Sans', 'Helvetica Neue', Helvetica, Arial, sans-serif; font-size: 30px; font-weight: normal; color: green;"><strong>Congratulations!</strong></h2>
+                          <h2 style="margin: 0; line-height: 36px; font-family: 'Open Sans', 'Helvetica Neue', Helvetica, Arial, sans-serif; font-size: 30px; font-weight: normal; color: green;"><strong>${heading}</strong></h2>
                         </td>
                       </tr>
                     </table>
@@ -336,6 +342,146 @@ export const sendPaymentConfirmationEmail = async (
   }
 };
 
+// Send order status update email to user
+export const sendOrderStatusUpdateEmail = async (
+  orderId: string,
+  note?: string
+): Promise<void> => {
+  try {
+    const order = await Order.findById(orderId).populate("userId");
+    if (!order || !order.userId) throw new Error("Order or user not found");
+
+    const user = order.userId as any;
+    const statusMessages: Record<string, { subject: string; heading: string }> =
+      {
+        Confirmed: {
+          subject: "Your order has been confirmed.",
+          heading: "Order Confirmed",
+        },
+        Completed: {
+          subject: "Your order has been completed.",
+          heading: "Order Completed",
+        },
+        Cancelled: {
+          subject: "Your order has been cancelled.",
+          heading: "Order Cancelled",
+        },
+      };
+    const { subject, heading } = statusMessages[order.status] ?? {
+      subject: `Your order is now ${order.status}.`,
+      heading: "Order Update",
+    };
+    const number = order.orderNumber;
+    const type = "order" as const;
+    const greeting = `Hello ${user.name},`;
+    const date = new Date(order.createdAt ?? Date.now()).toLocaleDateString(
+      "en-US",
+      {
+        month: "long",
+        day: "numeric",
+        year: "2-digit",
+      }
+    );
+
+    const totalAmount = `$${order.finalPrice.toFixed(2)}`;
+    const paymentStatus = order.paymentStatus;
+    const linkUrl = `${process.env.BHW_DASHBOARD_URI}/orders?orderId${order.orderNumber}`;
+    const linkText = "View Order";
+    const closing = `${
+      note ? `${escapeHtml(note)}<br><br>` : ""
+    }Best Regards,<br>Team Adaired`;
+
+    const html = emailTemplate(
+      subject,
+      number ?? "",
+      type,
+      greeting,
+      date,
+      totalAmount,
+      paymentStatus,
+      linkUrl,
+      linkText,
+      closing,
+      heading
+    );
+    await sendEmail(user.email, `${subject} - Order #${number}`, html);
+  } catch (error) {
+    console.error("Failed to send order status update email:", error);
+  }
+};
+
+// Send deliverable update email: new work goes to the customer, revision requests to the assignee
+export const sendDeliverableUpdateEmail = async (
+  orderId: string,
+  itemId: string,
+  event: "delivered" | "revision"
+): Promise<void> => {
+  try {
+    const order = await Order.findById(orderId)
+      .populate("userId")
+      .populate("products.product", "name")
+      .populate("products.fulfilment.assignee", "name email");
+    if (!order || !order.userId) throw new Error("Order or user not found");
+
+    const item = order.products.find((p) => p._id?.toString() === itemId);
+    if (!item) throw new Error("Order item not found");
+
+    const productName = (item.product as any)?.name ?? "your order item";
+    const recipient =
+      event === "delivered"
+        ? (order.userId as any)
+        : (item.fulfilment?.assignee as any);
+    if (!recipient?.email) throw new Error("Recipient not found");
+
+    const subject =
+      event === "delivered"
+        ? `New work has been delivered for ${productName}.`
+        : `A revision has been requested for ${productName}.`;
+    const heading =
+      event === "delivered" ? "Work Delivered" : "Revision Requested";
+    const number = order.orderNumber;
+    const type = "order" as const;
+    const greeting = `Hello ${recipient.name},`;
+    const date = new Date().toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "2-digit",
+    });
+
+    const totalAmount = `$${item.totalPrice.toFixed(2)}`;
+    const paymentStatus = order.paymentStatus;
+    const linkUrl =
+      event === "delivered"
+        ? `${process.env.BHW_DASHBOARD_URI}/orders?orderId${order.orderNumber}`
+        : `${process.env.ADMIN_DASHBOARD_BASE_URI}/orders/order-details?orderNumber=${order.orderNumber}`;
+    const linkText = event === "delivered" ? "Review Work" : "View Order";
+    const revisions = item.fulfilment?.revisions ?? [];
+    const latestRevision = revisions[revisions.length - 1];
+    const closing = `${
+      event === "revision" && latestRevision
+        ? `${escapeHtml(latestRevision.note)}<br><br>`
+        : ""
+    }Best Regards,<br>Team Adaired`;
+
+    const html = emailTemplate(
+      subject,
+      number ?? "",
+      type,
+      greeting,
+      date,
+      totalAmount,
+      paymentStatus,
+      linkUrl,
+      linkText,
+      closing,
+      heading
+    );
+    await sendEmail(recipient.email, `${subject} - Order #${number}`, html);
+  } catch (error) {
+    console.error("Failed to send deliverable update email:", error);
+  }
+};
+
 // Send new order notification to all admins
 export const sendAdminNewOrderEmail = async (
   orderId: string
@@ -480,6 +626,63 @@ export const sendInvoiceGeneratedEmail = async (
   }
 };
 
+// Send payment reminder for an unpaid invoice, relative to its due date
+export const sendInvoiceReminderEmail = async (
+  invoiceId: string,
+  daysFromDue: number
+): Promise<void> => {
+  try {
+    const invoice = await Invoice.findById(invoiceId)
+      .populate("userId")
+      .populate("orderId");
+    if (!invoice || !invoice.userId || !invoice.orderId)
+      throw new Error("Invoice, user, or order not found");
+
+    const user = invoice.userId as any;
+    const order = invoice.orderId as any;
+    const days = Math.abs(daysFromDue);
+    const subject =
+      daysFromDue < 0
+        ? `Your Invoice ${invoice.invoiceNumber} is due in ${days} day${days === 1 ? "" : "s"}`
+        : daysFromDue === 0
+        ? `Your Invoice ${invoice.invoiceNumber} is due today`
+        : `Your Invoice ${invoice.invoiceNumber} is ${days} day${days === 1 ? "" : "s"} overdue`;
+    const heading = daysFromDue > 0 ? "Payment Overdue" : "Payment Reminder";
+    const number = invoice.invoiceNumber;
+    const type = "invoice" as const;
+    const greeting = `Hello ${user.name},`;
+    const date = new Date(invoice.dueDate).toLocaleDateString("en-US", {
+      month: "long",
+      day: "numeric",
+      year: "2-digit",
+    });
+    const totalAmount = `$${invoice.finalAmount.toFixed(2)}`;
+    const paymentStatus = invoice.status;
+    const linkUrl =
+      order.paymentUrl ||
+      `${process.env.BHW_DASHBOARD_URI}/invoices?invoiceNumber=${invoice.invoiceNumber}`;
+    const linkText = order.paymentUrl ? "Pay Now" : "View Invoice";
+    const closing = `If you have already paid, please ignore this email.<br><br>Best Regards,<br>Team Adaired`;
+
+    const html = emailTemplate(
+      subject,
+      number,
+      type,
+      greeting,
+      date,
+      totalAmount,
+      paymentStatus,
+      linkUrl,
+      linkText,
+      closing,
+      heading
+    );
+    await sendEmail(user.email, `${subject} - Invoice #${number}`, html);
+  } catch (error) {
+    console.error("Failed to send invoice reminder email:", error);
+  }
+};
+
 // Send new invoice notification to all admins
 export const sendAdminNewInvoiceEmail = async (
   invoiceId: string
@@ -530,3 +733,178 @@ export const sendAdminNewInvoiceEmail = async (
     console.error("Failed to send admin new invoice email:", error);
   }
 };
+
+// Template for emails about products (abandoned carts, wishlist alerts)
+const productSummaryTemplate = (
+  subject: string,
+  heading: string,
+  greeting: string,
+  items: { label: string; amount: string }[],
+  note: string | null,
+  linkUrl: string,
+  linkText: string,
+  closing: string
+) => `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${subject}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f1f1f1; color: #000000;">
+  <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" style="background: linear-gradient(135deg, #1B5A96, #000000); padding: 20px 0;">
+    <tr>
+      <td align="center">
+        <table role="presentation" border="0" cellpadding="0" cellspacing="0" width="600" style="background-color: #ffffff; border-radius: 12px; box-shadow: 0 4px 15px rgba(0, 0, 0, 0.15); overflow: hidden; border: 1px solid #e0e0e0;">
+          <tr>
+            <td style="background-color: #599ff0; text-align: center;">
+              <img src="https://res.cloudinary.com/adaired/image/upload/c_limit,w_384/f_auto/q_auto/v1/Static%20Website%20Images/adaired_logo.png" alt="Adaired" style="max-width: 200px; height: auto; filter: drop-shadow(0 2px 4px rgba(0, 0, 0, 0.3));">
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 35px 40px; border: 1px solid #e0e0e0; border-top: none; border-bottom: none;">
+              <h2 style="margin: 0; line-height: 36px; font-size: 30px; font-weight: normal; color: #1B5A96; text-align: center;"><strong>${heading}</strong></h2>
+              <h2 style="margin: 0; line-height: 36px; font-size: 20px; font-weight: normal; color: #333333; text-align: center;"><strong>${subject}</strong></h2>
+              <p style="margin: 0; line-height: 27px; color: #333333; font-size: 18px; padding: 10px 0;"><strong>${greeting}</strong></p>
+              <table cellpadding="0" cellspacing="0" width="100%" style="border: 1px solid #e0e0e0; border-radius: 10px; background-color: #f9f9f9;" role="presentation">
+                ${items
+                  .map(
+                    (item) => `
+                <tr>
+                  <td align="left" style="padding: 10px 20px; border-bottom: 1px solid #e0e0e0; color: #333333; font-size: 16px;">${item.label}</td>
+                  <td align="right" style="padding: 10px 20px; border-bottom: 1px solid #e0e0e0; color: #1B5A96; font-size: 16px; font-weight: 600;">${item.amount}</td>
+                </tr>`
+                  )
+                  .join("")}
+              </table>
+              ${
+                note
+                  ? `<p style="font-size: 16px; line-height: 1.6; margin: 20px 0 0; color: #000000; text-align: center;">${note}</p>`
+                  : ""
+              }
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${linkUrl}" style="display: inline-block; background-color: #FB9100; color: #ffffff; text-decoration: none; padding: 12px 30px; border-radius: 25px; font-size: 16px; font-weight: 600; box-shadow: 0 3px 6px rgba(0, 0, 0, 0.1);">${linkText}</a>
+              </div>
+              <p style="font-size: 16px; line-height: 1.6; margin: 0; color: #000000; text-align: center;">${closing}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="background: linear-gradient(135deg, #000000, #1B5A96); padding: 20px; text-align: center; color: #ffffff;">
+              <p style="margin: 0; font-size: 14px; opacity: 0.9;">© 2025 Adaired. All rights reserved.</p>
+              <p style="margin: 10px 0 0; font-size: 12px;">
+                <a href="https://adaired.com" style="color: #FB9100; text-decoration: none; margin: 0 10px;">Visit our website</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+// Send an abandoned cart reminder, `hoursAfter` hours after the cart was left
+export const sendAbandonedCartEmail = async (
+  abandonedCartId: string,
+  hoursAfter: number
+): Promise<void> => {
+  try {
+    const campaign = await AbandonedCart.findById(abandonedCartId).populate(
+      "products.product",
+      "name"
+    );
+    if (!campaign) throw new Error("Abandoned cart not found");
+
+    const isFirstReminder =
+      Math.min(...campaign.reminders.map((r) => r.hoursAfter)) === hoursAfter;
+    const subject = campaign.couponCode
+      ? "A discount is waiting on your cart"
+      : isFirstReminder
+      ? "You left something in your cart"
+      : "Your cart is still waiting for you";
+    const heading = "Still Interested?";
+    const greeting = `Hello ${escapeHtml(campaign.name || "there")},`;
+    const items = campaign.products.map((line) => ({
+      label: `${(line.product as any)?.name ?? "Product"} &times; ${line.quantity}`,
+      amount: `$${line.totalPrice.toFixed(2)}`,
+    }));
+    const note = campaign.couponCode
+      ? `Use code <strong style="color: #FB9100;">${escapeHtml(
+          campaign.couponCode
+        )}</strong> at checkout for a discount on your order.`
+      : null;
+    // Guests restore their cart from the token in the link
+    const linkUrl = `${BASE_DOMAIN}/expert-content-solutions/cart${
+      campaign.guestToken ? `?cartToken=${campaign.guestToken}` : ""
+    }`;
+    const closing = `Your cart total was $${campaign.cartValue.toFixed(
+      2
+    )}. If you have already placed your order, please ignore this email.<br><br>Best Regards,<br>Team Adaired`;
+
+    const html = productSummaryTemplate(
+      subject,
+      heading,
+      greeting,
+      items,
+      note,
+      linkUrl,
+      "Complete Your Order",
+      closing
+    );
+    await sendEmail(campaign.email, subject, html);
+  } catch (error) {
+    console.error("Failed to send abandoned cart email:", error);
+  }
+};
+
+// Send a wishlist alert: the product is available again or its price dropped
+export const sendWishlistAlertEmail = async (
+  userId: string,
+  productId: string,
+  alert: "backInStock" | "priceDrop",
+  previousPrice?: number
+): Promise<void> => {
+  try {
+    const [user, product] = await Promise.all([
+      User.findById(userId).select("name email"),
+      Product.findById(productId).select("name slug pricePerUnit pricingType"),
+    ]);
+    if (!user || !product) throw new Error("User or product not found");
+
+    const subject =
+      alert === "backInStock"
+        ? `${product.name} is available again`
+        : `${product.name} is now cheaper`;
+    const heading = alert === "backInStock" ? "Back In Stock" : "Price Drop";
+    const greeting = `Hello ${user.name},`;
+    const unit = product.pricingType === "perWord" ? " / 100 words" : "";
+    const items = [
+      {
+        label: product.name,
+        amount: `${
+          previousPrice !== undefined
+            ? `<s style="color: #999999;">$${previousPrice.toFixed(2)}</s> `
+            : ""
+        }$${product.pricePerUnit.toFixed(2)}${unit}`,
+      },
+    ];
+    const linkUrl = `${BASE_DOMAIN}/expert-content-solutions/product/${product.slug}`;
+    const closing = `You are receiving this because you saved this product to your wishlist.<br><br>Best Regards,<br>Team Adaired`;
+
+    const html = productSummaryTemplate(
+      subject,
+      heading,
+      greeting,
+      items,
+      null,
+      linkUrl,
+      "View Product",
+      closing
+    );
+    await sendEmail(user.email, subject, html);
+  } catch (error) {
+    console.error("Failed to send wishlist alert email:", error);
+  }
+};